@@ -0,0 +1,48 @@
+export interface AccountLike {
+  homeAccountId: string;
+  username: string;
+  tenantId: string;
+}
+
+export interface AccountBinding {
+  kind: "homeAccountId" | "username" | "tenant";
+  value: string;
+}
+
+const HOME_ACCOUNT_ID_PATTERN = /^[0-9a-f-]{36}\.[0-9a-f-]{36}$/i;
+const PERSONAL_ACCOUNT_TENANT_ID = "9188040d-6c67-4c5b-b112-36a304b66dad";
+
+export function parseAccountBinding(input: string | undefined): AccountBinding | undefined {
+  const value = input?.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (HOME_ACCOUNT_ID_PATTERN.test(value)) {
+    return { kind: "homeAccountId", value };
+  }
+  if (value.includes("@")) {
+    return { kind: "username", value };
+  }
+  return { kind: "tenant", value };
+}
+
+export function findBoundAccount<T extends AccountLike>(accounts: readonly T[], binding: AccountBinding): T | undefined {
+  const expected = binding.value.toLowerCase();
+  if (binding.kind === "homeAccountId") {
+    return accounts.find((account) => account.homeAccountId.toLowerCase() === expected);
+  }
+  if (binding.kind === "username") {
+    return accounts.find((account) => account.username.toLowerCase() === expected);
+  }
+
+  // Tenant bindings accept the tenant ID, the account's UPN domain, or "consumers" for personal accounts.
+  const tenantId = expected === "consumers" ? PERSONAL_ACCOUNT_TENANT_ID : expected;
+  return accounts.find((account) => {
+    const domain = account.username.split("@")[1]?.toLowerCase();
+    return account.tenantId.toLowerCase() === tenantId || domain === expected;
+  });
+}
+
+export function getBindingAuthorityTenant(binding: AccountBinding | undefined): string | undefined {
+  return binding?.kind === "tenant" ? binding.value : undefined;
+}
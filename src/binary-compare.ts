@@ -0,0 +1,81 @@
+import { createHash } from "node:crypto";
+import * as path from "node:path";
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".avif": "image/avif"
+};
+
+export interface ByteComparison {
+  leftSize: number;
+  rightSize: number;
+  leftSha256: string;
+  rightSha256: string;
+  identical: boolean;
+  firstDifference: number | undefined;
+}
+
+export interface HexRow {
+  offset: number;
+  left: Array<number | undefined>;
+  right: Array<number | undefined>;
+}
+
+export function getImageMimeType(fileName: string): string | undefined {
+  return IMAGE_MIME_TYPES[path.extname(fileName).toLowerCase()];
+}
+
+// Same heuristic as git: a NUL byte in the first 8 KiB marks the content as binary.
+export function isProbablyBinary(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, 8192).includes(0);
+}
+
+export function sha256Hex(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+export function compareBytes(left: Uint8Array, right: Uint8Array): ByteComparison {
+  const leftSha256 = sha256Hex(left);
+  const rightSha256 = sha256Hex(right);
+  let firstDifference: number | undefined;
+  const shared = Math.min(left.length, right.length);
+  for (let offset = 0; offset < shared; offset++) {
+    if (left[offset] !== right[offset]) {
+      firstDifference = offset;
+      break;
+    }
+  }
+  if (firstDifference === undefined && left.length !== right.length) {
+    firstDifference = shared;
+  }
+
+  return {
+    leftSize: left.length,
+    rightSize: right.length,
+    leftSha256,
+    rightSha256,
+    identical: firstDifference === undefined,
+    firstDifference
+  };
+}
+
+export function buildHexRows(left: Uint8Array, right: Uint8Array, start: number, rowCount: number, bytesPerRow = 16): HexRow[] {
+  const rows: HexRow[] = [];
+  const alignedStart = Math.max(0, start - (start % bytesPerRow));
+  const end = Math.max(left.length, right.length);
+  for (let offset = alignedStart; offset < end && rows.length < rowCount; offset += bytesPerRow) {
+    const row: HexRow = { offset, left: [], right: [] };
+    for (let index = offset; index < offset + bytesPerRow; index++) {
+      row.left.push(index < left.length ? left[index] : undefined);
+      row.right.push(index < right.length ? right[index] : undefined);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
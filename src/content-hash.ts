@@ -0,0 +1,66 @@
+import { createHash } from "node:crypto";
+
+const QUICK_XOR_WIDTH_BYTES = 20;
+const QUICK_XOR_SHIFT = 11;
+const QUICK_XOR_WIDTH_BITS = QUICK_XOR_WIDTH_BYTES * 8;
+
+export interface DriveItemHashes {
+  quickXorHash?: string;
+  sha1Hash?: string;
+  sha256Hash?: string;
+}
+
+// OneDrive's QuickXorHash: each input byte is XORed into a 160-bit circular register at a bit offset
+// that advances by 11 per byte, then the little-endian 64-bit input length is XORed into the last 8 bytes.
+export class QuickXorHash {
+  private readonly register = new Uint8Array(QUICK_XOR_WIDTH_BYTES);
+  private length = 0;
+
+  public update(bytes: Uint8Array): this {
+    let bitOffset = (this.length * QUICK_XOR_SHIFT) % QUICK_XOR_WIDTH_BITS;
+    for (const byte of bytes) {
+      const index = bitOffset >> 3;
+      const shift = bitOffset & 7;
+      this.register[index] ^= (byte << shift) & 0xff;
+      if (shift) {
+        this.register[(index + 1) % QUICK_XOR_WIDTH_BYTES] ^= byte >> (8 - shift);
+      }
+      bitOffset = (bitOffset + QUICK_XOR_SHIFT) % QUICK_XOR_WIDTH_BITS;
+    }
+    this.length += bytes.length;
+    return this;
+  }
+
+  public digest(): Buffer {
+    const result = Buffer.from(this.register);
+    const lengthBytes = Buffer.alloc(8);
+    lengthBytes.writeBigUInt64LE(BigInt(this.length));
+    for (let index = 0; index < lengthBytes.length; index++) {
+      result[QUICK_XOR_WIDTH_BYTES - lengthBytes.length + index] ^= lengthBytes[index];
+    }
+    return result;
+  }
+}
+
+export function quickXorHashBase64(bytes: Uint8Array): string {
+  return new QuickXorHash().update(bytes).digest().toString("base64");
+}
+
+export function sha1Hex(bytes: Uint8Array): string {
+  return createHash("sha1").update(bytes).digest("hex").toUpperCase();
+}
+
+// Compares against the strongest hash Graph reported: QuickXorHash (all drives), then SHA-1 (older Personal drives),
+// then SHA-256. Returns undefined when the item carries no hash we can compute.
+export function matchesDriveItemHashes(bytes: Uint8Array, hashes: DriveItemHashes | undefined): boolean | undefined {
+  if (hashes?.quickXorHash) {
+    return quickXorHashBase64(bytes) === hashes.quickXorHash;
+  }
+  if (hashes?.sha1Hash) {
+    return sha1Hex(bytes) === hashes.sha1Hash.toUpperCase();
+  }
+  if (hashes?.sha256Hash) {
+    return createHash("sha256").update(bytes).digest("hex").toUpperCase() === hashes.sha256Hash.toUpperCase();
+  }
+  return undefined;
+}
@@ -1,20 +1,85 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 import { execSync } from "node:child_process";
-import { PublicClientApplication } from "@azure/msal-node";
+import { randomBytes, randomUUID } from "node:crypto";
+import { AccountInfo, AuthenticationResult, ICachePlugin, PublicClientApplication } from "@azure/msal-node";
 import * as vscode from "vscode";
+import { DriveItemHashes, matchesDriveItemHashes } from "./content-hash";
+import { findBoundAccount, getBindingAuthorityTenant, parseAccountBinding } from "./account-utils";
+import { buildHexRows, compareBytes, getImageMimeType, isProbablyBinary, sha256Hex } from "./binary-compare";
+import { GraphError, OneDriveError, isAuthRequired, isOfflineError, isOneDriveErrorKind } from "./graph-errors";
+import { GraphTransport } from "./graph-transport";
+import { findLineMatches, findPresenceRange, parseSearchQuery } from "./history-search";
+import { LineHunk, attributeLines, computeHunks, splitLines, toRevertEdit } from "./line-diff";
+import { LoopbackRedirectServer } from "./loopback-auth";
+import { DeltaDriveItem, collectDeletedChildren, countUnplacedDeletions } from "./recycle-bin";
+import { RestoreJournal, RestoreJournalEntry } from "./restore-journal";
+import { VersionListStore } from "./version-list-store";
+import { VersionTextConverter, builtInTextConverters, findTextConverter } from "./text-converters";
+import { VersionCacheStats, VersionContentCache } from "./version-content-cache";
+import { ExportManifest, ExportedVersion, buildExportFileName, getManifestFileNames, toManifestCsv } from "./version-export";
+import {
+  findVersionAtOrBefore,
+  mapWithConcurrency,
+  mergeVersionPage,
+  parsePointInTime,
+  parseSnapshotStamp,
+  sortVersionsNewestFirst,
+  toSnapshotStamp
+} from "./version-utils";
 import {
   appendPathSegmentsToUrl,
   buildRemotePathCandidates,
+  describeGraphErrorBody,
   getRelativePathByUrlPrefix,
   isGraphAccessDenied,
   isGraphCurrentVersionContentUnsupported,
+  isConsentRefusal,
+  isGraphFolderDeltaUnsupported,
   isGraphNotFound,
+  isGraphRestoreUnsupported,
+  isGraphWriteAccessRefused,
+  isRemoteItemPathConsistent,
   normalizeShareBaseUrl,
+  redactSecrets,
   toGraphShareId
 } from "./resolver-utils";
+import {
+  isMacCloudStorageOneDriveFolder,
+  parseAbrauneggConfig,
+  parseRcloneMounts,
+  parseRcloneOneDriveRemotes
+} from "./root-discovery";
 
 const CONTENT_SCHEME = "onedrive-version";
+const SNAPSHOT_SCHEME = "onedrive-snapshot";
+// Version id used in content URIs for the local file itself, so converted documents diff text against text.
+const LOCAL_FILE_VERSION_ID = "local";
+const MAX_INLINE_IMAGE_BYTES = 32 * 1024 * 1024;
+const MAX_RECENT_DOWNLOAD_BYTES = 64 * 1024 * 1024;
+const HEX_VIEW_ROWS = 32;
+const MAX_FOLDER_RESTORE_FILES = 5000;
+const MAX_SNAPSHOT_CACHED_VERSIONS = 5000;
+const MAX_SEARCH_MATCHES_PER_VERSION = 50;
+const MAX_LOCAL_MATCH_DOWNLOADS = 5;
+// Versions downloaded side by side for annotations and history search.
+const MAX_PARALLEL_VERSION_DOWNLOADS = 4;
+const SYNC_STATUS_MAX_AGE_MS = 60 * 1000;
+const SYNC_STATUS_DEBOUNCE_MS = 1000;
+const MAX_RESTORE_JOURNAL_ENTRIES = 200;
+const MAX_DRIVE_DELTA_PAGES = 50;
 const GRAPH_BASE = "https://graph.microsoft.com/v1.0";
+const GRAPH_READ_SCOPE = "Files.Read.All";
+const GRAPH_WRITE_SCOPE = "Files.ReadWrite.All";
+const MSAL_CACHE_SECRET_KEY = "onedriveVersions.msalTokenCache";
+const MSAL_ACCOUNT_STATE_KEY = "onedriveVersions.msalAccountHomeId";
+const ACCOUNT_BINDINGS_STATE_KEY = "onedriveVersions.accountBindings";
+const RESOLUTION_STATE_KEY = "onedriveVersions.resolvedItems";
+// Older releases kept full version lists under this key; it is dropped on startup.
+const LEGACY_RESOLUTION_STATE_KEY = "onedriveVersions.resolutions";
+const MAX_PERSISTED_RESOLUTIONS = 500;
+const BROWSER_SIGN_IN_TIMEOUT_MS = 5 * 60 * 1000;
 
 interface GraphVersion {
   id: string;
@@ -30,8 +95,15 @@ interface GraphVersion {
 interface GraphDriveItem {
   id: string;
   name: string;
+  eTag?: string;
+  cTag?: string;
+  deleted?: Record<string, unknown>;
+  file?: {
+    hashes?: DriveItemHashes;
+  };
   parentReference?: {
     driveId?: string;
+    path?: string;
   };
 }
 
@@ -42,36 +114,156 @@ interface GraphDrive {
   webUrl?: string;
 }
 
+interface GraphPage<T> {
+  value?: T[];
+  "@odata.nextLink"?: string;
+}
+
 interface VersionContext {
   driveId: string;
   itemId: string;
+  account?: string;
   versions: GraphVersion[];
   selectedIndex: number;
+  loadingMore: boolean;
+  cTag?: string;
+  hashes?: DriveItemHashes;
+}
+
+interface PersistedResolution {
+  driveId: string;
+  itemId: string;
+  account?: string;
+  eTag?: string;
+  cTag?: string;
+  savedAt: number;
 }
 
+type MappingSource = "settings" | "environment" | "windowsRegistry" | "abraunegg" | "rclone" | "macCloudStorage" | "folderName";
+
 interface Mapping {
   localRoot: string;
+  source?: MappingSource;
+  account?: string;
   driveId?: string;
   remoteRoot?: string;
   urlNamespace?: string;
   fullRemotePath?: string;
 }
 
+interface ResolutionTrace {
+  log(message: string): void;
+}
+
 interface RequestOptions {
   interactive?: boolean;
+  access?: "read" | "readWrite";
+  account?: string;
+  trace?: ResolutionTrace;
+  signal?: AbortSignal;
+  refresh?: boolean;
+}
+
+interface VersionTreeNode {
+  localPath: string;
+  index: number;
+}
+
+// `vscode` uses the built-in Microsoft auth provider; the other modes use MSAL with the configured Entra app.
+type AuthMode = "vscode" | "deviceCode" | "authCode";
+
+type RestoreOutcome = "server" | "local" | "localAfterWriteRefused";
+
+interface FolderRestoreEntry {
+  localPath: string;
+  relativePath: string;
+  status: "restore" | "unchanged" | "createdLater" | "error" | "notChecked";
+  version?: GraphVersion;
+  detail?: string;
+}
+
+type PlannedFolderRestore = FolderRestoreEntry & { version: GraphVersion };
+
+interface LocalSyncStatus {
+  state: "inSync" | "localChanges" | "cloudNewer" | "unknown";
+  matchingVersionId?: string;
+}
+
+interface SyncStatusOptions extends RequestOptions {
+  // Download same-size older versions to tell "cloud newer" from local changes (default true).
+  matchVersions?: boolean;
+  // Trust the hashes from the version load instead of fetching the item again.
+  useLoadedHashes?: boolean;
+}
+
+interface SyncStatusSnapshot {
+  checkedAt: number;
+  cTag?: string;
+  mtimeMs: number;
+  size: number;
+  versionsMatched: boolean;
+  status: LocalSyncStatus;
+}
+
+interface DeletedDriveItem {
+  driveId: string;
+  itemId: string;
+  account?: string;
+  name: string;
+  // Where the file lived in the local OneDrive folder.
+  localPath: string;
+  size?: number;
+  lastModifiedDateTime?: string;
+  // Graph's `restore` only exists on OneDrive Personal; other drives recover by writing a version locally.
+  restorableOnServer: boolean;
+}
+
+interface DeletedFilesListing {
+  files: DeletedDriveItem[];
+  // The drive-wide scan stopped at MAX_DRIVE_DELTA_PAGES before reaching the end.
+  truncated: boolean;
+  // Deleted files the delta did not place in any folder; they may have lived in this one.
+  unplaced: number;
+}
+
+interface BinaryComparisonSide {
+  label: string;
+  bytes: Uint8Array;
 }
 
 class OneDriveClient {
   private readonly contextCache = new Map<string, VersionContext>();
+  private readonly pagingTasks = new Map<VersionContext, Promise<void>>();
+  private readonly syncStatusSnapshots = new Map<string, SyncStatusSnapshot>();
+  // Last downloads in memory, oldest first, so a preview that checks content before opening a diff fetches it once.
+  // The current version is never disk-cached and is keyed by cTag here so remote edits are not served stale.
+  private readonly recentDownloads = new Map<string, Uint8Array>();
+  private readonly onDidChangeVersionsEmitter = new vscode.EventEmitter<string>();
+  public readonly onDidChangeVersions = this.onDidChangeVersionsEmitter.event;
   private msalApp?: PublicClientApplication;
-  private msalAccountHomeId?: string;
   private msalClientId?: string;
   private msalTenantId?: string;
+  private readonly transport = new GraphTransport();
   private readonly windowsRegistryMappings: Mapping[] = this.getMappingsFromWindowsRegistry();
+  private readonly abrauneggMappings: Mapping[] = this.getMappingsFromAbrauneggConfig();
+  private readonly rcloneMappings: Mapping[] = this.getMappingsFromRclone();
+  private readonly macCloudStorageMappings: Mapping[] = this.getMappingsFromMacCloudStorage();
+
+  public constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly globalState: vscode.Memento,
+    private readonly contentCache: VersionContentCache,
+    // Version lists of persisted resolutions; globalState only keeps item IDs and tags.
+    private readonly versionLists: VersionListStore<GraphVersion>
+  ) {
+    if (this.globalState.get(LEGACY_RESOLUTION_STATE_KEY) !== undefined) {
+      void this.globalState.update(LEGACY_RESOLUTION_STATE_KEY, undefined);
+    }
+  }
 
-  public getAuthMode(): "vscode" | "deviceCode" {
+  public getAuthMode(): AuthMode {
     const cfg = vscode.workspace.getConfiguration("onedriveVersions");
-    return cfg.get<"vscode" | "deviceCode">("auth.mode", "vscode");
+    return cfg.get<AuthMode>("auth.mode", "vscode");
   }
 
   public hasDeviceCodeClientId(): boolean {
@@ -84,49 +276,131 @@ class OneDriveClient {
     await this.getAccessToken();
   }
 
-  public async setAuthMode(mode: "vscode" | "deviceCode"): Promise<void> {
+  public async signOut(): Promise<void> {
+    if (this.msalApp) {
+      const tokenCache = this.msalApp.getTokenCache();
+      for (const account of await tokenCache.getAllAccounts()) {
+        await tokenCache.removeAccount(account);
+      }
+    }
+    await this.secrets.delete(MSAL_CACHE_SECRET_KEY);
+    await this.globalState.update(MSAL_ACCOUNT_STATE_KEY, undefined);
+    this.contextCache.clear();
+    this.recentDownloads.clear();
+    await this.globalState.update(RESOLUTION_STATE_KEY, undefined);
+    await this.versionLists.clear().catch(() => undefined);
+  }
+
+  public async listAccounts(): Promise<AccountInfo[]> {
+    if (this.getAuthMode() === "vscode") {
+      return [];
+    }
+    const msalApp = await this.getMsalApp();
+    return msalApp.getTokenCache().getAllAccounts();
+  }
+
+  public getDefaultAccountHomeId(): string | undefined {
+    return this.globalState.get<string>(MSAL_ACCOUNT_STATE_KEY);
+  }
+
+  public async signInAdditionalAccount(tenant?: string): Promise<string> {
+    if (this.getAuthMode() !== "vscode") {
+      const signedIn = await this.signInWithMsal([`https://graph.microsoft.com/${GRAPH_READ_SCOPE}`], tenant);
+      if (!signedIn.account) {
+        throw new Error("Sign-in did not return an account.");
+      }
+      return signedIn.account.homeAccountId;
+    }
+
+    const scopes = tenant ? [`VSCODE_TENANT:${tenant}`, GRAPH_READ_SCOPE] : [GRAPH_READ_SCOPE];
+    const session = await vscode.authentication.getSession("microsoft", scopes, { createIfNone: true, clearSessionPreference: true });
+    return session.account.label;
+  }
+
+  public async bindAccount(localRoot: string | undefined, account: string): Promise<void> {
+    if (!localRoot) {
+      // VS Code auth keeps its own session preference, so only the MSAL modes store a default account.
+      if (this.getAuthMode() !== "vscode") {
+        await this.globalState.update(MSAL_ACCOUNT_STATE_KEY, account);
+      }
+    } else {
+      const bindings = { ...this.globalState.get<Record<string, string>>(ACCOUNT_BINDINGS_STATE_KEY, {}) };
+      bindings[normalizeLocalRoot(localRoot)] = account;
+      await this.globalState.update(ACCOUNT_BINDINGS_STATE_KEY, bindings);
+    }
+    this.contextCache.clear();
+  }
+
+  public async setAuthMode(mode: AuthMode): Promise<void> {
     const cfg = vscode.workspace.getConfiguration("onedriveVersions");
     await cfg.update("auth.mode", mode, vscode.ConfigurationTarget.Global);
   }
 
   public async loadVersionsForFile(localPath: string, options?: RequestOptions): Promise<VersionContext> {
     const resolved = path.resolve(localPath);
-    const mapping = this.resolveBestMapping(resolved);
+    const trace = options?.trace;
+    const mapping = this.resolveBestMapping(resolved, trace);
     if (!mapping) {
-      throw new Error("File is not inside a detected OneDrive root.");
+      throw new OneDriveError("File is not inside a detected OneDrive root.", "notInOneDriveRoot");
     }
 
+    const requestOptions: RequestOptions = { ...options, account: mapping.account };
+
     const relativeSegments = this.toRelativeSegments(mapping, resolved);
+    const revalidated = await this.loadFromPersistedResolution(resolved, relativeSegments, requestOptions);
+    if (revalidated) {
+      return revalidated;
+    }
+
+    const { driveId, item } = await this.resolveRemoteItem(mapping, relativeSegments, requestOptions);
+    return this.loadVersionsForItem(resolved, driveId, item, requestOptions);
+  }
+
+  // Path lookup, then drive webUrl matching, then share URL lookup; shared by files and folders.
+  private async resolveRemoteItem(
+    mapping: Mapping,
+    relativeSegments: string[],
+    requestOptions: RequestOptions
+  ): Promise<{ driveId: string; item: GraphDriveItem }> {
+    const trace = requestOptions.trace;
     const remotePath = this.toRemotePath(mapping, relativeSegments);
+    trace?.log(`Remote path: ${remotePath}`);
     let item: GraphDriveItem | undefined;
     try {
-      item = await this.getDriveItem(mapping, remotePath, options);
+      trace?.log("Step 1: path lookup (getDriveItem)");
+      item = await this.getDriveItem(mapping, remotePath, requestOptions);
     } catch (error) {
       if (!isGraphNotFound(error) && !isGraphAccessDenied(error)) {
         throw error;
       }
+      trace?.log(`  Path lookup failed: ${redactSecrets(errorMessage(error))}`);
 
       try {
-        item = await this.getDriveItemByDriveWebUrl(mapping, relativeSegments, options);
+        trace?.log("Step 2: drive webUrl matching (getDriveItemByDriveWebUrl)");
+        item = await this.getDriveItemByDriveWebUrl(mapping, relativeSegments, requestOptions);
       } catch (driveUrlError) {
         if (!isGraphNotFound(driveUrlError) && !isGraphAccessDenied(driveUrlError)) {
           throw driveUrlError;
         }
+        trace?.log(`  Drive webUrl matching failed: ${redactSecrets(errorMessage(driveUrlError))}`);
       }
 
       if (!item) {
         const shareRoots = [mapping.fullRemotePath, mapping.urlNamespace]
           .filter((value): value is string => Boolean(value && value.trim().length > 0))
           .map((value) => normalizeShareBaseUrl(value));
+        trace?.log("Step 3: share URL lookup (getDriveItemFromShareRoots)");
         if (!shareRoots.length) {
+          trace?.log("  Skipped: mapping has no FullRemotePath/UrlNamespace metadata.");
           throw error;
         }
-        item = await this.getDriveItemFromShareRoots(shareRoots, relativeSegments, options);
+        item = await this.getDriveItemFromShareRoots(shareRoots, relativeSegments, requestOptions);
       }
     }
+    trace?.log(`Resolved item ${item?.id ?? "(none)"} in drive ${item?.parentReference?.driveId ?? mapping.driveId ?? "(unknown)"}`);
 
     if (!item) {
-      throw new Error("itemNotFound: unable to resolve remote item for local OneDrive path.");
+      throw new OneDriveError("Unable to resolve remote item for local OneDrive path.", "itemNotFound");
     }
 
     const driveId = item.parentReference?.driveId ?? mapping.driveId;
@@ -135,58 +409,425 @@ class OneDriveClient {
       throw new Error("Unable to determine driveId for this file.");
     }
 
-    const versions = await this.getVersions(driveId, item.id, options);
-    const sorted = [...versions].sort((a, b) => {
-      return new Date(b.lastModifiedDateTime).getTime() - new Date(a.lastModifiedDateTime).getTime();
-    });
+    return { driveId, item };
+  }
+
+  private async loadVersionsForItem(
+    resolved: string,
+    driveId: string,
+    item: GraphDriveItem,
+    requestOptions: RequestOptions
+  ): Promise<VersionContext> {
+    const firstPage = await this.fetchJson<GraphPage<GraphVersion>>(this.getVersionsEndpoint(driveId, item.id), requestOptions);
+    const sorted = sortVersionsNewestFirst(firstPage.value ?? []);
 
     if (!sorted.length) {
       throw new Error("No OneDrive versions were returned for this file.");
     }
 
+    const nextLink = firstPage["@odata.nextLink"];
     const versionContext: VersionContext = {
       driveId,
       itemId: item.id,
+      account: requestOptions.account,
       versions: sorted,
-      selectedIndex: 0
+      selectedIndex: 0,
+      loadingMore: Boolean(nextLink),
+      cTag: item.cTag,
+      hashes: item.file?.hashes
     };
 
     this.contextCache.set(resolved, versionContext);
+    await this.persistResolution(resolved, versionContext, item.eTag);
+    if (nextLink) {
+      // Long histories stream in behind the first page so pickers and views are usable immediately.
+      const task = this.loadRemainingVersionPages(resolved, versionContext, nextLink, { interactive: false, account: requestOptions.account }, item.eTag);
+      this.pagingTasks.set(versionContext, task);
+    }
     return versionContext;
   }
 
+  private async loadFromPersistedResolution(
+    resolved: string,
+    relativeSegments: string[],
+    options: RequestOptions
+  ): Promise<VersionContext | undefined> {
+    const persisted = this.globalState.get<Record<string, PersistedResolution>>(RESOLUTION_STATE_KEY, {})[resolved];
+    if (!persisted || persisted.account !== options.account) {
+      return undefined;
+    }
+
+    options.trace?.log(`Revalidating saved resolution: item ${persisted.itemId} in drive ${persisted.driveId}`);
+    const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(persisted.driveId)}/items/${encodeURIComponent(persisted.itemId)}?$select=id,name,eTag,cTag,parentReference,file,deleted`;
+    let item: GraphDriveItem;
+    try {
+      item = await this.fetchJson<GraphDriveItem>(endpoint, options);
+    } catch (error) {
+      if (!isGraphNotFound(error) && !isGraphAccessDenied(error)) {
+        throw error;
+      }
+      options.trace?.log("  Saved item no longer exists; running full resolution.");
+      await this.forgetPersistedResolution(resolved);
+      return undefined;
+    }
+
+    if (item.deleted || !isRemoteItemPathConsistent(item.parentReference?.path, item.name, relativeSegments)) {
+      options.trace?.log("  Saved item was moved, renamed, or deleted remotely; running full resolution.");
+      await this.forgetPersistedResolution(resolved);
+      return undefined;
+    }
+
+    const unchanged = Boolean(persisted.cTag && item.cTag === persisted.cTag);
+    const versions = unchanged && !options.refresh ? await this.versionLists.read(persisted.driveId, persisted.itemId) : undefined;
+    if (versions?.length) {
+      options.trace?.log("  Content tag unchanged; reusing saved version list.");
+      const versionContext: VersionContext = {
+        driveId: persisted.driveId,
+        itemId: persisted.itemId,
+        account: persisted.account,
+        versions,
+        selectedIndex: 0,
+        loadingMore: false,
+        cTag: persisted.cTag,
+        hashes: item.file?.hashes
+      };
+      this.contextCache.set(resolved, versionContext);
+      return versionContext;
+    }
+
+    options.trace?.log(
+      !unchanged ? "  Content tag changed; reloading versions." : options.refresh ? "  Refresh requested; reloading versions." : "  No saved version list; reloading versions."
+    );
+    return this.loadVersionsForItem(resolved, persisted.driveId, item, options);
+  }
+
+  private async persistResolution(localPath: string, context: VersionContext, eTag?: string): Promise<void> {
+    const saved = { ...this.globalState.get<Record<string, PersistedResolution>>(RESOLUTION_STATE_KEY, {}) };
+    saved[localPath] = {
+      driveId: context.driveId,
+      itemId: context.itemId,
+      account: context.account,
+      eTag,
+      cTag: context.cTag,
+      savedAt: Date.now()
+    };
+
+    // Partial lists are not reusable, so only complete histories are saved. The list is a cache, so a failed write is ignored.
+    if (context.loadingMore) {
+      await this.versionLists.remove(context.driveId, context.itemId).catch(() => undefined);
+    } else {
+      await this.versionLists.write(context.driveId, context.itemId, context.versions).catch(() => undefined);
+    }
+
+    const keys = Object.keys(saved);
+    if (keys.length > MAX_PERSISTED_RESOLUTIONS) {
+      const dropped = keys
+        .sort((a, b) => (saved[a]?.savedAt ?? 0) - (saved[b]?.savedAt ?? 0))
+        .slice(0, keys.length - MAX_PERSISTED_RESOLUTIONS);
+      for (const key of dropped) {
+        const entry = saved[key];
+        delete saved[key];
+        await this.versionLists.remove(entry.driveId, entry.itemId).catch(() => undefined);
+      }
+    }
+    await this.globalState.update(RESOLUTION_STATE_KEY, saved);
+  }
+
+  private async forgetPersistedResolution(localPath: string): Promise<void> {
+    const saved = { ...this.globalState.get<Record<string, PersistedResolution>>(RESOLUTION_STATE_KEY, {}) };
+    const entry = saved[localPath];
+    if (entry) {
+      delete saved[localPath];
+      await this.globalState.update(RESOLUTION_STATE_KEY, saved);
+      await this.versionLists.remove(entry.driveId, entry.itemId).catch(() => undefined);
+    }
+  }
+
+  public async forgetResolution(localPath: string): Promise<void> {
+    this.clearCachedContext(localPath);
+    await this.forgetPersistedResolution(path.resolve(localPath));
+  }
+
+  public async loadAllVersionsForFile(localPath: string, options?: RequestOptions): Promise<VersionContext> {
+    const context = this.getCachedContext(localPath) ?? (await this.loadVersionsForFile(localPath, options));
+    await this.pagingTasks.get(context);
+    return context;
+  }
+
+  private async loadRemainingVersionPages(
+    localPath: string,
+    context: VersionContext,
+    nextLink: string,
+    options: RequestOptions,
+    eTag?: string
+  ): Promise<void> {
+    try {
+      for await (const page of this.fetchPages<GraphVersion>(nextLink, options)) {
+        if (this.contextCache.get(localPath) !== context) {
+          return;
+        }
+        const selectedId = context.versions[context.selectedIndex]?.id;
+        context.versions = mergeVersionPage(context.versions, page);
+        context.selectedIndex = Math.max(0, context.versions.findIndex((version) => version.id === selectedId));
+        this.onDidChangeVersionsEmitter.fire(localPath);
+      }
+    } catch {
+      // Keep the versions loaded so far; a refresh retries the full listing.
+    } finally {
+      context.loadingMore = false;
+      this.pagingTasks.delete(context);
+      if (this.contextCache.get(localPath) === context) {
+        await this.persistResolution(localPath, context, eTag);
+      }
+      this.onDidChangeVersionsEmitter.fire(localPath);
+    }
+  }
+
   public getCachedContext(localPath: string): VersionContext | undefined {
     return this.contextCache.get(path.resolve(localPath));
   }
 
+  // The item is refetched at most once a minute (or on `refresh`), and the local file is only rehashed
+  // when its size, mtime or the item's cTag changed since the last check.
+  public async getSyncStatus(localPath: string, options: SyncStatusOptions = {}): Promise<LocalSyncStatus> {
+    const resolved = path.resolve(localPath);
+    const context = this.getCachedContext(resolved) ?? (await this.loadVersionsForFile(resolved, options));
+    const previous = this.syncStatusSnapshots.get(resolved);
+    const now = Date.now();
+    let checkedAt = previous?.checkedAt ?? now;
+    let cTag = previous?.cTag ?? context.cTag;
+    const stale = !previous || options.refresh || now - previous.checkedAt > SYNC_STATUS_MAX_AGE_MS;
+    if (stale && !(options.useLoadedHashes && context.hashes)) {
+      const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(context.driveId)}/items/${encodeURIComponent(context.itemId)}?$select=id,cTag,file`;
+      const item = await this.fetchJson<GraphDriveItem>(endpoint, { ...options, account: context.account });
+      context.hashes = item.file?.hashes;
+      cTag = item.cTag;
+      checkedAt = now;
+    }
+
+    const matchVersions = options.matchVersions ?? true;
+    const stat = await fs.promises.stat(resolved);
+    if (previous && previous.cTag === cTag && previous.mtimeMs === stat.mtimeMs && previous.size === stat.size && (previous.versionsMatched || !matchVersions)) {
+      previous.checkedAt = checkedAt;
+      return previous.status;
+    }
+
+    const status = await this.computeSyncStatus(resolved, context, matchVersions, options);
+    this.syncStatusSnapshots.set(resolved, { checkedAt, cTag, mtimeMs: stat.mtimeMs, size: stat.size, versionsMatched: matchVersions, status });
+    return status;
+  }
+
+  private async computeSyncStatus(resolved: string, context: VersionContext, matchVersions: boolean, options: RequestOptions): Promise<LocalSyncStatus> {
+    const bytes = await fs.promises.readFile(resolved);
+    const matchesCloud = matchesDriveItemHashes(bytes, context.hashes);
+    if (matchesCloud === undefined) {
+      return { state: "unknown" };
+    }
+    if (matchesCloud) {
+      return { state: "inSync", matchingVersionId: context.versions[0]?.id };
+    }
+    if (!matchVersions) {
+      return { state: "localChanges" };
+    }
+
+    // Versions carry no hashes, so compare content for the few older versions with the same size.
+    const candidates = context.versions
+      .slice(1)
+      .filter((version) => version.size === bytes.length)
+      .slice(0, MAX_LOCAL_MATCH_DOWNLOADS);
+    for (const version of candidates) {
+      const versionBytes = await this.downloadVersionBytes(resolved, version.id, options);
+      if (Buffer.from(versionBytes).equals(bytes)) {
+        return { state: "cloudNewer", matchingVersionId: version.id };
+      }
+    }
+    return { state: "localChanges" };
+  }
+
   public clearCachedContext(localPath: string): void {
     this.contextCache.delete(path.resolve(localPath));
+    this.syncStatusSnapshots.delete(path.resolve(localPath));
   }
 
-  public async downloadVersionBytes(localPath: string, versionId: string): Promise<Uint8Array> {
-    const context = this.getCachedContext(localPath) ?? (await this.loadVersionsForFile(localPath));
+  public async downloadVersionBytes(localPath: string, versionId: string, options?: RequestOptions): Promise<Uint8Array> {
+    let context = this.getCachedContext(localPath);
+    if (!context) {
+      try {
+        context = await this.loadVersionsForFile(localPath, options);
+      } catch (error) {
+        // When Graph cannot be reached, historical versions cached for the last resolved item still open.
+        const offline = isOfflineError(error) ? await this.readCachedVersionOffline(localPath, versionId) : undefined;
+        if (offline) {
+          return offline;
+        }
+        throw error;
+      }
+    }
+
+    const isCurrentVersion = context.versions[0]?.id === versionId;
+    const recentKey = `${context.driveId}/${context.itemId}/${versionId}${isCurrentVersion ? `@${context.cTag ?? ""}` : ""}`;
+    const recent = this.recentDownloads.get(recentKey);
+    if (recent) {
+      this.rememberDownload(recentKey, recent);
+      return recent;
+    }
+
+    const cacheKey = { driveId: context.driveId, itemId: context.itemId, versionId };
+    const cached = await this.contentCache.get(cacheKey).catch(() => undefined);
+    if (cached) {
+      this.rememberDownload(recentKey, cached);
+      return cached;
+    }
+
     const versionEndpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(context.driveId)}/items/${encodeURIComponent(context.itemId)}/versions/${encodeURIComponent(versionId)}/content`;
+    let bytes: Uint8Array;
     try {
-      return await this.fetchBinary(versionEndpoint);
+      bytes = await this.fetchBinary(versionEndpoint, { ...options, account: context.account });
     } catch (error) {
       if (!isGraphCurrentVersionContentUnsupported(error)) {
         throw error;
       }
       const currentEndpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(context.driveId)}/items/${encodeURIComponent(context.itemId)}/content`;
-      return this.fetchBinary(currentEndpoint);
+      bytes = await this.fetchBinary(currentEndpoint, { ...options, account: context.account });
+      this.rememberDownload(recentKey, bytes);
+      return bytes;
+    }
+
+    this.rememberDownload(recentKey, bytes);
+    if (!isCurrentVersion) {
+      await this.contentCache.put(cacheKey, bytes).catch(() => undefined);
+    }
+    return bytes;
+  }
+
+  // The cache is best-effort: a failing cache read never fails the download.
+  private async readCachedVersionOffline(localPath: string, versionId: string): Promise<Uint8Array | undefined> {
+    const persisted = this.globalState.get<Record<string, PersistedResolution>>(RESOLUTION_STATE_KEY, {})[path.resolve(localPath)];
+    if (!persisted) {
+      return undefined;
+    }
+    return this.contentCache.get({ driveId: persisted.driveId, itemId: persisted.itemId, versionId }).catch(() => undefined);
+  }
+
+  private rememberDownload(key: string, bytes: Uint8Array): void {
+    this.recentDownloads.delete(key);
+    if (bytes.byteLength > MAX_RECENT_DOWNLOAD_BYTES) {
+      return;
+    }
+    this.recentDownloads.set(key, bytes);
+    let total = 0;
+    for (const entry of this.recentDownloads.values()) {
+      total += entry.byteLength;
+    }
+    for (const [oldestKey, oldest] of this.recentDownloads) {
+      if (total <= MAX_RECENT_DOWNLOAD_BYTES) {
+        break;
+      }
+      this.recentDownloads.delete(oldestKey);
+      total -= oldest.byteLength;
+    }
+  }
+
+  public clearContentCache(): Promise<VersionCacheStats> {
+    this.recentDownloads.clear();
+    return this.contentCache.clear();
+  }
+
+  // Deleted files are found through delta queries, which report removed items with a `deleted` facet.
+  // This is not a recycle-bin listing: a delta without a token only reports deletions Graph still tracks.
+  public async listDeletedFiles(folderPath: string, options?: RequestOptions): Promise<DeletedFilesListing> {
+    const resolved = path.resolve(folderPath);
+    const mapping = this.resolveBestMapping(resolved);
+    if (!mapping) {
+      throw new OneDriveError("Folder is not inside a detected OneDrive root.", "notInOneDriveRoot");
+    }
+
+    const requestOptions: RequestOptions = { ...options, account: mapping.account };
+    const { driveId, item: folder } = await this.resolveRemoteItem(mapping, this.toRelativeSegments(mapping, resolved), requestOptions);
+    const driveEndpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(driveId)}`;
+    const select = "$select=id,name,deleted,folder,size,lastModifiedDateTime,parentReference";
+    const children: DeltaDriveItem[] = [];
+    let truncated = false;
+    try {
+      for await (const page of this.fetchPages<DeltaDriveItem>(`${driveEndpoint}/items/${encodeURIComponent(folder.id)}/delta?${select}`, requestOptions)) {
+        children.push(...page);
+      }
+    } catch (error) {
+      if (!isGraphFolderDeltaUnsupported(error)) {
+        throw error;
+      }
+      // Fall back to scanning the whole drive, keeping this folder's children plus deletions without a parent,
+      // and stopping after a bounded number of pages.
+      let pages = 0;
+      for await (const page of this.fetchPages<DeltaDriveItem>(`${driveEndpoint}/root/delta?${select}`, requestOptions)) {
+        children.push(...page.filter((entry) => entry.parentReference?.id === folder.id || (entry.deleted && !entry.parentReference?.id)));
+        if (++pages >= MAX_DRIVE_DELTA_PAGES) {
+          truncated = true;
+          break;
+        }
+      }
+    }
+
+    // An unknown drive type still tries the server restore, which falls back when Graph rejects it.
+    const drive = await this.fetchJson<GraphDrive>(`${driveEndpoint}?$select=driveType`, requestOptions).catch(() => undefined);
+    const restorableOnServer = drive?.driveType === undefined || drive.driveType === "personal";
+    const files = collectDeletedChildren(children, folder.id).map((entry) => ({
+      driveId,
+      itemId: entry.id,
+      account: mapping.account,
+      name: entry.name ?? entry.id,
+      localPath: path.join(resolved, entry.name ?? entry.id),
+      size: entry.size,
+      lastModifiedDateTime: entry.lastModifiedDateTime,
+      restorableOnServer
+    }));
+    return { files, truncated, unplaced: countUnplacedDeletions(children) };
+  }
+
+  public async listDeletedFileVersions(deleted: DeletedDriveItem): Promise<GraphVersion[]> {
+    const versions: GraphVersion[] = [];
+    for await (const page of this.fetchPages<GraphVersion>(this.getVersionsEndpoint(deleted.driveId, deleted.itemId), { account: deleted.account })) {
+      versions.push(...page);
+    }
+    return sortVersionsNewestFirst(versions);
+  }
+
+  public async downloadDeletedFileVersion(deleted: DeletedDriveItem, versionId: string): Promise<Uint8Array> {
+    const itemEndpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(deleted.driveId)}/items/${encodeURIComponent(deleted.itemId)}`;
+    try {
+      return await this.fetchBinary(`${itemEndpoint}/versions/${encodeURIComponent(versionId)}/content`, { account: deleted.account });
+    } catch (error) {
+      if (!isGraphCurrentVersionContentUnsupported(error)) {
+        throw error;
+      }
+      return this.fetchBinary(`${itemEndpoint}/content`, { account: deleted.account });
     }
   }
 
+  // Restores the item into its original folder; OneDrive sync then downloads it.
+  public async restoreDeletedFile(deleted: DeletedDriveItem): Promise<void> {
+    const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(deleted.driveId)}/items/${encodeURIComponent(deleted.itemId)}/restore`;
+    await this.postGraph(endpoint, { interactive: true, access: "readWrite", account: deleted.account });
+  }
+
+  public async restoreVersionOnServer(localPath: string, versionId: string): Promise<VersionContext> {
+    const context = this.getCachedContext(localPath) ?? (await this.loadVersionsForFile(localPath));
+    const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(context.driveId)}/items/${encodeURIComponent(context.itemId)}/versions/${encodeURIComponent(versionId)}/restoreVersion`;
+    await this.postGraph(endpoint, { interactive: true, access: "readWrite", account: context.account });
+    return this.loadVersionsForFile(localPath);
+  }
+
   public findOneDriveRoot(localPath: string): Mapping | undefined {
     return this.resolveBestMapping(path.resolve(localPath));
   }
 
-  private resolveBestMapping(localPath: string): Mapping | undefined {
+  private resolveBestMapping(localPath: string, trace?: ResolutionTrace): Mapping | undefined {
     const configured = this.getMappingsFromConfig();
     const envMappings = this.getMappingsFromEnvironment();
     const registryMappings = this.windowsRegistryMappings;
+    const unixMappings = [...this.abrauneggMappings, ...this.rcloneMappings, ...this.macCloudStorageMappings];
     const inferred = this.inferMappingFromPath(localPath);
-    const baseCandidates = [...configured, ...envMappings, ...registryMappings];
+    const baseCandidates = [...configured, ...envMappings, ...registryMappings, ...unixMappings];
     const candidates = inferred ? [...baseCandidates, inferred] : baseCandidates;
 
     const matches = candidates
@@ -194,13 +835,21 @@ class OneDriveClient {
       .filter(({ root }) => isPathWithin(localPath, root))
       .sort((a, b) => b.root.length - a.root.length);
 
+    trace?.log(`Mapping candidates checked: ${candidates.length}`);
+    for (const { m, root } of matches) {
+      trace?.log(`  Matching root ${root} (source: ${m.source ?? "unknown"}${m.driveId ? `, driveId ${m.driveId}` : ""}${m.remoteRoot ? `, remoteRoot ${m.remoteRoot}` : ""})`);
+    }
     if (!matches.length) {
+      trace?.log("  No mapping contains this file.");
       return undefined;
     }
+    trace?.log(`Selected mapping: ${matches[0].root} (longest matching root)`);
 
+    const bindings = this.globalState.get<Record<string, string>>(ACCOUNT_BINDINGS_STATE_KEY, {});
     return {
       ...matches[0].m,
-      localRoot: matches[0].root
+      localRoot: matches[0].root,
+      account: matches[0].m.account ?? bindings[matches[0].root]
     };
   }
 
@@ -218,19 +867,21 @@ class OneDriveClient {
 
     const rootSegments = segments.slice(0, oneDriveIndex + 1);
     const inferredRoot = path.join(parsed.root, ...rootSegments);
-    return { localRoot: inferredRoot };
+    return { localRoot: inferredRoot, source: "folderName" };
   }
 
   private getMappingsFromConfig(): Mapping[] {
     const cfg = vscode.workspace.getConfiguration("onedriveVersions");
     const mappings = cfg.get<Mapping[]>("mappings", []);
-    return mappings.filter((m) => typeof m.localRoot === "string" && m.localRoot.trim().length > 0);
+    return mappings
+      .filter((m) => typeof m.localRoot === "string" && m.localRoot.trim().length > 0)
+      .map((m) => ({ ...m, source: "settings" }));
   }
 
   private getMappingsFromEnvironment(): Mapping[] {
     const envRoots = [process.env.OneDrive, process.env.OneDriveCommercial, process.env.OneDriveConsumer]
       .filter((value): value is string => Boolean(value && value.trim().length > 0))
-      .map((localRoot) => ({ localRoot }));
+      .map((localRoot): Mapping => ({ localRoot, source: "environment" }));
 
     // Remove duplicates while preserving order.
     const deduped: Mapping[] = [];
@@ -304,6 +955,7 @@ class OneDriveClient {
           seen.add(localRoot);
           mappings.push({
             localRoot,
+            source: "windowsRegistry",
             urlNamespace: mapping.urlNamespace?.trim() || undefined,
             fullRemotePath: mapping.fullRemotePath?.trim() || undefined
           });
@@ -315,6 +967,88 @@ class OneDriveClient {
     }
   }
 
+  private getMappingsFromAbrauneggConfig(): Mapping[] {
+    if (process.platform === "win32") {
+      return [];
+    }
+
+    try {
+      const homeDir = os.homedir();
+      const configHome = process.env.XDG_CONFIG_HOME || path.join(homeDir, ".config");
+      const mappings: Mapping[] = [];
+      const seen = new Set<string>();
+
+      // The default profile lives in ~/.config/onedrive; extra accounts typically use --confdir ~/.config/onedrive-<name>.
+      for (const entry of fs.readdirSync(configHome, { withFileTypes: true })) {
+        if (!entry.isDirectory() || !/^onedrive/i.test(entry.name)) {
+          continue;
+        }
+        const confDir = path.join(configHome, entry.name);
+        const configPath = path.join(confDir, "config");
+        const hasConfig = fs.existsSync(configPath);
+        if (!hasConfig && !fs.existsSync(path.join(confDir, "refresh_token"))) {
+          continue;
+        }
+
+        const discovered = parseAbrauneggConfig(hasConfig ? fs.readFileSync(configPath, "utf8") : "", homeDir);
+        const localRoot = normalizeLocalRoot(discovered.localRoot);
+        if (!seen.has(localRoot)) {
+          seen.add(localRoot);
+          mappings.push({ localRoot, source: "abraunegg", driveId: discovered.driveId });
+        }
+      }
+      return mappings;
+    } catch {
+      return [];
+    }
+  }
+
+  private getMappingsFromRclone(): Mapping[] {
+    if (process.platform !== "linux" && process.platform !== "darwin") {
+      return [];
+    }
+
+    try {
+      const configPath = process.env.RCLONE_CONFIG
+        || path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"), "rclone", "rclone.conf");
+      const remotes = parseRcloneOneDriveRemotes(fs.readFileSync(configPath, "utf8"));
+      if (!remotes.length) {
+        return [];
+      }
+
+      const mountsText = process.platform === "linux"
+        ? fs.readFileSync("/proc/mounts", "utf8")
+        : execSync("mount", { stdio: ["ignore", "pipe", "ignore"], encoding: "utf8" });
+      const mappings: Mapping[] = [];
+      const seen = new Set<string>();
+      for (const discovered of parseRcloneMounts(mountsText, remotes)) {
+        const localRoot = normalizeLocalRoot(discovered.localRoot);
+        if (!seen.has(localRoot)) {
+          seen.add(localRoot);
+          mappings.push({ ...discovered, localRoot, source: "rclone" });
+        }
+      }
+      return mappings;
+    } catch {
+      return [];
+    }
+  }
+
+  private getMappingsFromMacCloudStorage(): Mapping[] {
+    if (process.platform !== "darwin") {
+      return [];
+    }
+
+    try {
+      const cloudStorageRoot = path.join(os.homedir(), "Library", "CloudStorage");
+      return fs.readdirSync(cloudStorageRoot, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && isMacCloudStorageOneDriveFolder(entry.name))
+        .map((entry): Mapping => ({ localRoot: normalizeLocalRoot(path.join(cloudStorageRoot, entry.name)), source: "macCloudStorage" }));
+    } catch {
+      return [];
+    }
+  }
+
   private toRelativeSegments(mapping: Mapping, localPath: string): string[] {
     const root = normalizeLocalRoot(mapping.localRoot);
     const relative = path.relative(root, localPath);
@@ -341,10 +1075,11 @@ class OneDriveClient {
   private async getDriveItem(mapping: Mapping, remotePath: string, options?: RequestOptions): Promise<GraphDriveItem> {
     const remotePathCandidates = buildRemotePathCandidates(remotePath);
     const driveId = mapping.driveId;
+    options?.trace?.log(`  Candidate paths (buildRemotePathCandidates): ${remotePathCandidates.join(", ")}`);
 
     if (driveId) {
       for (const candidatePath of remotePathCandidates) {
-        const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(driveId)}/root:${candidatePath}?$select=id,name,parentReference`;
+        const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(driveId)}/root:${candidatePath}?$select=id,name,eTag,cTag,parentReference,file`;
         try {
           return await this.fetchJson<GraphDriveItem>(endpoint, options);
         } catch (error) {
@@ -353,11 +1088,11 @@ class OneDriveClient {
           }
         }
       }
-      throw new Error("itemNotFound: path was not found in configured drive mapping.");
+      throw new OneDriveError("Path was not found in configured drive mapping.", "itemNotFound");
     }
 
     for (const candidatePath of remotePathCandidates) {
-      const myDriveEndpoint = `${GRAPH_BASE}/me/drive/root:${candidatePath}?$select=id,name,parentReference`;
+      const myDriveEndpoint = `${GRAPH_BASE}/me/drive/root:${candidatePath}?$select=id,name,eTag,cTag,parentReference,file`;
       try {
         return await this.fetchJson<GraphDriveItem>(myDriveEndpoint, options);
       } catch (error) {
@@ -367,25 +1102,22 @@ class OneDriveClient {
       }
     }
 
-    const drives = await this.fetchJson<{ value: GraphDrive[] }>(
-      `${GRAPH_BASE}/me/drives?$select=id,name,driveType`,
-      options
-    );
-
-    for (const drive of drives.value ?? []) {
-      for (const candidatePath of remotePathCandidates) {
-        const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(drive.id)}/root:${candidatePath}?$select=id,name,parentReference`;
-        try {
-          return await this.fetchJson<GraphDriveItem>(endpoint, options);
-        } catch (error) {
-          if (!isGraphNotFound(error)) {
-            throw error;
+    for await (const drives of this.fetchPages<GraphDrive>(`${GRAPH_BASE}/me/drives?$select=id,name,driveType`, options)) {
+      for (const drive of drives) {
+        for (const candidatePath of remotePathCandidates) {
+          const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(drive.id)}/root:${candidatePath}?$select=id,name,eTag,cTag,parentReference,file`;
+          try {
+            return await this.fetchJson<GraphDriveItem>(endpoint, options);
+          } catch (error) {
+            if (!isGraphNotFound(error)) {
+              throw error;
+            }
           }
         }
       }
     }
 
-    throw new Error("itemNotFound: path was not found in /me/drive or any accessible /me/drives entries (including trimmed-path fallback).");
+    throw new OneDriveError("Path was not found in /me/drive or any accessible /me/drives entries (including trimmed-path fallback).", "itemNotFound");
   }
 
   private async getDriveItemByDriveWebUrl(
@@ -398,43 +1130,40 @@ class OneDriveClient {
       .map((value) => normalizeShareBaseUrl(value));
 
     if (!shareRoots.length) {
-      throw new Error("itemNotFound: no registry URL metadata available.");
+      throw new OneDriveError("No registry URL metadata available.", "itemNotFound");
     }
 
     const targetUrls = shareRoots.map((root) => appendPathSegmentsToUrl(root, relativeSegments));
-    const drives = await this.fetchJson<{ value: GraphDrive[] }>(
-      `${GRAPH_BASE}/me/drives?$select=id,name,driveType,webUrl`,
-      options
-    );
-
-    for (const drive of drives.value ?? []) {
-      const driveWebUrl = drive.webUrl ? normalizeShareBaseUrl(drive.webUrl) : "";
-      if (!driveWebUrl) {
-        continue;
-      }
-      for (const targetUrl of targetUrls) {
-        const relative = getRelativePathByUrlPrefix(targetUrl, driveWebUrl);
-        if (relative === undefined) {
+    for await (const drives of this.fetchPages<GraphDrive>(`${GRAPH_BASE}/me/drives?$select=id,name,driveType,webUrl`, options)) {
+      for (const drive of drives) {
+        const driveWebUrl = drive.webUrl ? normalizeShareBaseUrl(drive.webUrl) : "";
+        if (!driveWebUrl) {
           continue;
         }
-        const encodedRelative = relative
-          .split("/")
-          .filter((s) => s.length > 0)
-          .map((s) => encodeURIComponent(s))
-          .join("/");
-        const candidatePath = encodedRelative ? `/${encodedRelative}` : "/";
-        const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(drive.id)}/root:${candidatePath}?$select=id,name,parentReference`;
-        try {
-          return await this.fetchJson<GraphDriveItem>(endpoint, options);
-        } catch (error) {
-          if (!isGraphNotFound(error) && !isGraphAccessDenied(error)) {
-            throw error;
+        for (const targetUrl of targetUrls) {
+          const relative = getRelativePathByUrlPrefix(targetUrl, driveWebUrl);
+          if (relative === undefined) {
+            continue;
+          }
+          const encodedRelative = relative
+            .split("/")
+            .filter((s) => s.length > 0)
+            .map((s) => encodeURIComponent(s))
+            .join("/");
+          const candidatePath = encodedRelative ? `/${encodedRelative}` : "/";
+          const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(drive.id)}/root:${candidatePath}?$select=id,name,eTag,cTag,parentReference,file`;
+          try {
+            return await this.fetchJson<GraphDriveItem>(endpoint, options);
+          } catch (error) {
+            if (!isGraphNotFound(error) && !isGraphAccessDenied(error)) {
+              throw error;
+            }
           }
         }
       }
     }
 
-    throw new Error("itemNotFound: registry URL fallback could not map file to an accessible drive webUrl.");
+    throw new OneDriveError("Registry URL fallback could not map file to an accessible drive webUrl.", "itemNotFound");
   }
 
   private async getDriveItemFromShareRoots(
@@ -445,7 +1174,7 @@ class OneDriveClient {
     for (const shareRoot of shareRoots) {
       const shareUrl = appendPathSegmentsToUrl(shareRoot, relativeSegments);
       const shareId = toGraphShareId(shareUrl);
-      const endpoint = `${GRAPH_BASE}/shares/${shareId}/driveItem?$select=id,name,parentReference`;
+      const endpoint = `${GRAPH_BASE}/shares/${shareId}/driveItem?$select=id,name,eTag,cTag,parentReference,file`;
       try {
         return await this.fetchJson<GraphDriveItem>(endpoint, options);
       } catch (error) {
@@ -454,87 +1183,192 @@ class OneDriveClient {
         }
       }
     }
-    throw new Error("itemNotFound: file could not be resolved via registry share URL metadata.");
+    throw new OneDriveError("File could not be resolved via registry share URL metadata.", "itemNotFound");
   }
 
-  private async getVersions(driveId: string, itemId: string, options?: RequestOptions): Promise<GraphVersion[]> {
-    const endpoint = `${GRAPH_BASE}/drives/${encodeURIComponent(driveId)}/items/${encodeURIComponent(itemId)}/versions?$select=id,lastModifiedDateTime,size,lastModifiedBy`;
-    const response = await this.fetchJson<{ value: GraphVersion[] }>(endpoint, options);
-    return response.value ?? [];
+  private getVersionsEndpoint(driveId: string, itemId: string): string {
+    return `${GRAPH_BASE}/drives/${encodeURIComponent(driveId)}/items/${encodeURIComponent(itemId)}/versions?$select=id,lastModifiedDateTime,size,lastModifiedBy`;
   }
 
-  private async getAccessToken(options?: RequestOptions): Promise<string> {
-    const interactive = options?.interactive ?? true;
-    const authMode = this.getAuthMode();
-    if (authMode === "deviceCode") {
-      return this.getAccessTokenViaDeviceCode({ interactive });
+  private async *fetchPages<T>(url: string, options?: RequestOptions): AsyncGenerator<T[]> {
+    let nextLink: string | undefined = url;
+    while (nextLink) {
+      const page: GraphPage<T> = await this.fetchJson<GraphPage<T>>(nextLink, options);
+      yield page.value ?? [];
+      nextLink = page["@odata.nextLink"];
+    }
+  }
+
+  private async getAccessToken(options?: RequestOptions): Promise<string> {
+    if (options?.access !== "readWrite") {
+      return this.getAccessTokenForScope(GRAPH_READ_SCOPE, options);
+    }
+
+    // Write access is requested incrementally, only when a restore actually needs it.
+    try {
+      return await this.getAccessTokenForScope(GRAPH_WRITE_SCOPE, options);
+    } catch (error) {
+      if (!isConsentRefusal(error)) {
+        throw error;
+      }
+      throw new OneDriveError(`Write access to OneDrive was not granted: ${errorMessage(error)}`, "writeScopeRefused");
+    }
+  }
+
+  private async getAccessTokenForScope(scope: string, options?: RequestOptions): Promise<string> {
+    const interactive = options?.interactive ?? true;
+    const authMode = this.getAuthMode();
+    if (authMode !== "vscode") {
+      return this.getAccessTokenViaMsal(scope, { interactive, account: options?.account });
     }
 
-    const scopes = ["Files.Read.All"];
+    const binding = parseAccountBinding(options?.account);
+    const bindingTenant = getBindingAuthorityTenant(binding);
+    const scopes = bindingTenant ? [`VSCODE_TENANT:${bindingTenant}`, scope] : [scope];
     try {
-      const session = await vscode.authentication.getSession("microsoft", scopes, { createIfNone: interactive });
+      let session = await vscode.authentication.getSession("microsoft", scopes, { createIfNone: interactive });
       if (!session) {
-        throw new Error("AUTH_REQUIRED");
+        throw new OneDriveError("Sign-in required to access OneDrive.", "authRequired");
+      }
+      if (binding?.kind === "username" && session.account.label.toLowerCase() !== binding.value.toLowerCase()) {
+        if (!interactive) {
+          throw new OneDriveError("Sign-in required to access OneDrive.", "authRequired");
+        }
+        // Let the user pick the bound account instead of the remembered session preference.
+        session = await vscode.authentication.getSession("microsoft", scopes, { createIfNone: true, clearSessionPreference: true });
+        if (session.account.label.toLowerCase() !== binding.value.toLowerCase()) {
+          throw new Error(
+            `Signed-in account ${session.account.label} does not match the account bound to this OneDrive root (${binding.value}).`
+          );
+        }
       }
       return session.accessToken;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       if (message.includes("AADSTS65002")) {
-        throw new Error(
-          "Tenant policy blocked VS Code Microsoft auth for Graph (AADSTS65002). Use 'OneDrive: Connect Microsoft Account' and switch to device code auth."
+        throw new OneDriveError(
+          "Tenant policy blocked VS Code Microsoft auth for Graph (AADSTS65002). Use 'OneDrive: Connect Microsoft Account' and switch to device code auth.",
+          "tenantAuthBlocked"
         );
       }
       throw error;
     }
   }
 
-  private async getAccessTokenViaDeviceCode(options?: RequestOptions): Promise<string> {
-    const interactive = options?.interactive ?? true;
+  private async getMsalApp(): Promise<PublicClientApplication> {
     const cfg = vscode.workspace.getConfiguration("onedriveVersions");
     const clientId = cfg.get<string>("auth.clientId", "").trim();
     const tenantId = cfg.get<string>("auth.tenantId", "organizations").trim() || "organizations";
-    const scopes = ["https://graph.microsoft.com/Files.Read.All"];
 
     if (!clientId) {
-      throw new Error(
-        "Device code auth requires onedriveVersions.auth.clientId. Run 'OneDrive: Open Setup Guide' to configure your Entra app."
+      throw new OneDriveError(
+        "Device code and browser sign-in require onedriveVersions.auth.clientId. Run 'OneDrive: Open Setup Guide' to configure your Entra app.",
+        "authNotConfigured"
       );
     }
 
     if (!this.msalApp || this.msalClientId !== clientId || this.msalTenantId !== tenantId) {
+      const reconfigured = Boolean(this.msalApp);
       this.msalApp = new PublicClientApplication({
         auth: {
           clientId,
           authority: `https://login.microsoftonline.com/${tenantId}`
+        },
+        cache: {
+          cachePlugin: createSecretStorageCachePlugin(this.secrets, MSAL_CACHE_SECRET_KEY)
         }
       });
       this.msalClientId = clientId;
       this.msalTenantId = tenantId;
-      this.msalAccountHomeId = undefined;
+      if (reconfigured) {
+        await this.globalState.update(MSAL_ACCOUNT_STATE_KEY, undefined);
+      }
     }
+    return this.msalApp;
+  }
 
-    if (this.msalAccountHomeId) {
-      const accounts = await this.msalApp.getTokenCache().getAllAccounts();
-      const account = accounts.find((a) => a.homeAccountId === this.msalAccountHomeId);
-      if (account) {
-        try {
-          const silent = await this.msalApp.acquireTokenSilent({ account, scopes });
-          if (silent?.accessToken) {
-            return silent.accessToken;
-          }
-        } catch {
-          // Fall back to device code.
+  private async getAccessTokenViaMsal(scope: string, options?: RequestOptions): Promise<string> {
+    const interactive = options?.interactive ?? true;
+    const scopes = [`https://graph.microsoft.com/${scope}`];
+    const msalApp = await this.getMsalApp();
+    const binding = parseAccountBinding(options?.account);
+
+    const accounts = await msalApp.getTokenCache().getAllAccounts();
+    const accountHomeId = this.globalState.get<string>(MSAL_ACCOUNT_STATE_KEY);
+    const account = binding
+      ? findBoundAccount(accounts, binding)
+      : accounts.find((a) => a.homeAccountId === accountHomeId);
+    if (account) {
+      try {
+        const silent = await msalApp.acquireTokenSilent({
+          account,
+          scopes,
+          authority: `https://login.microsoftonline.com/${account.tenantId}`
+        });
+        if (silent?.accessToken) {
+          return silent.accessToken;
         }
+      } catch {
+        // Fall back to interactive sign-in.
       }
     }
 
     if (!interactive) {
-      throw new Error("AUTH_REQUIRED");
+      throw new OneDriveError("Sign-in required to access OneDrive.", "authRequired");
+    }
+
+    const signedIn = await this.signInWithMsal(scopes, getBindingAuthorityTenant(binding));
+    // The sign-in page lets the user pick any account; a token for another account would read the wrong drive.
+    if (binding && !(signedIn.account && findBoundAccount([signedIn.account], binding))) {
+      throw new OneDriveError(
+        `Signed in as ${signedIn.account?.username ?? "an unknown account"}, but this OneDrive folder is bound to ${binding.value}. Sign in again with that account.`,
+        "authRequired"
+      );
+    }
+    if (!binding && signedIn.account?.homeAccountId) {
+      await this.globalState.update(MSAL_ACCOUNT_STATE_KEY, signedIn.account.homeAccountId);
     }
+    return signedIn.accessToken;
+  }
+
+  private signInWithMsal(scopes: string[], tenant?: string): Promise<AuthenticationResult> {
+    return this.getAuthMode() === "authCode" ? this.signInWithBrowser(scopes, tenant) : this.signInWithDeviceCode(scopes, tenant);
+  }
+
+  // Auth-code flow: MSAL generates the PKCE pair and state, opens the browser, and redeems the code
+  // that LoopbackRedirectServer receives on localhost.
+  private async signInWithBrowser(scopes: string[], tenant?: string): Promise<AuthenticationResult> {
+    const msalApp = await this.getMsalApp();
+    const interactiveToken = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "OneDrive: Complete sign-in in your browser", cancellable: true },
+      (_progress, token) =>
+        withAbortSignal(token, (signal) =>
+          msalApp.acquireTokenInteractive({
+            scopes,
+            authority: tenant ? `https://login.microsoftonline.com/${tenant}` : undefined,
+            prompt: "select_account",
+            loopbackClient: new LoopbackRedirectServer({ timeoutMs: BROWSER_SIGN_IN_TIMEOUT_MS, signal }),
+            openBrowser: async (url) => {
+              if (!(await vscode.env.openExternal(vscode.Uri.parse(url)))) {
+                throw new Error("The browser could not be opened for sign-in.");
+              }
+            }
+          })
+        )
+    );
+
+    if (!interactiveToken?.accessToken) {
+      throw new Error("Browser sign-in did not return a Graph access token.");
+    }
+    return interactiveToken;
+  }
 
+  private async signInWithDeviceCode(scopes: string[], tenant?: string): Promise<AuthenticationResult> {
+    const msalApp = await this.getMsalApp();
     let browserOpened = false;
-    const interactiveToken = await this.msalApp.acquireTokenByDeviceCode({
+    const interactiveToken = await msalApp.acquireTokenByDeviceCode({
       scopes,
+      authority: tenant ? `https://login.microsoftonline.com/${tenant}` : undefined,
       deviceCodeCallback: (response) => {
         if (!browserOpened && response.verificationUri) {
           browserOpened = true;
@@ -556,39 +1390,65 @@ class OneDriveClient {
     if (!interactiveToken?.accessToken) {
       throw new Error("Device code sign-in did not return a Graph access token.");
     }
-    if (interactiveToken.account?.homeAccountId) {
-      this.msalAccountHomeId = interactiveToken.account.homeAccountId;
-    }
-    return interactiveToken.accessToken;
+    return interactiveToken;
   }
 
   private async fetchJson<T>(url: string, options?: RequestOptions): Promise<T> {
     const token = await this.getAccessToken(options);
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`
+    return this.getTransport().request(url, { headers: { Authorization: `Bearer ${token}` }, signal: options?.signal }, async (response) => {
+      if (!response.ok) {
+        const body = await response.text();
+        this.traceRequest(options, "GET", url, response.status, body);
+        throw GraphError.fromResponse(response.status, body, response.headers, url);
       }
+      this.traceRequest(options, "GET", url, response.status);
+      return (await response.json()) as T;
     });
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(`Graph request failed (${response.status}): ${body}`);
+  }
+
+  private traceRequest(options: RequestOptions | undefined, method: string, url: string, status: number, errorBody?: string): void {
+    if (!options?.trace) {
+      return;
     }
-    return (await response.json()) as T;
+    const outcome = errorBody === undefined ? "ok" : `rejected: ${describeGraphErrorBody(errorBody)}`;
+    options.trace.log(`  ${method} ${redactSecrets(url)} -> ${status} (${outcome})`);
+  }
+
+  private async postGraph(url: string, options?: RequestOptions): Promise<void> {
+    const token = await this.getAccessToken(options);
+    const init = { method: "POST", headers: { Authorization: `Bearer ${token}` }, signal: options?.signal };
+    await this.getTransport().request(url, init, async (response) => {
+      if (!response.ok) {
+        const body = await response.text();
+        this.traceRequest(options, "POST", url, response.status, body);
+        throw GraphError.fromResponse(response.status, body, response.headers, url);
+      }
+      this.traceRequest(options, "POST", url, response.status);
+    });
   }
 
   private async fetchBinary(url: string, options?: RequestOptions): Promise<Uint8Array> {
     const token = await this.getAccessToken(options);
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`
+    return this.getTransport().request(url, { headers: { Authorization: `Bearer ${token}` }, signal: options?.signal }, async (response) => {
+      if (!response.ok) {
+        const body = await response.text();
+        this.traceRequest(options, "GET", url, response.status, body);
+        throw GraphError.fromResponse(response.status, body, response.headers, url, true);
       }
+      this.traceRequest(options, "GET", url, response.status);
+      const arrayBuffer = await response.arrayBuffer();
+      return new Uint8Array(arrayBuffer);
     });
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(`Graph content request failed (${response.status}): ${body}`);
-    }
-    const arrayBuffer = await response.arrayBuffer();
-    return new Uint8Array(arrayBuffer);
+  }
+
+  private getTransport(): GraphTransport {
+    const cfg = vscode.workspace.getConfiguration("onedriveVersions");
+    this.transport.configure({
+      maxRetries: Math.max(0, cfg.get<number>("network.maxRetries", 4)),
+      timeoutMs: Math.max(1, cfg.get<number>("network.timeoutSeconds", 30)) * 1000,
+      maxConcurrency: Math.max(1, cfg.get<number>("network.maxConcurrentRequests", 4))
+    });
+    return this.transport;
   }
 }
 
@@ -596,32 +1456,455 @@ class OneDriveVersionContentProvider implements vscode.TextDocumentContentProvid
   private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
   public readonly onDidChange = this.onDidChangeEmitter.event;
 
-  public constructor(private readonly client: OneDriveClient) {}
-
-  public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
-    const localPath = decodeURIComponent(uri.query.replace(/^local=/, ""));
-    const versionId = decodeURIComponent(uri.fragment.replace(/^version=/, ""));
+  public constructor(
+    private readonly client: OneDriveClient,
+    private readonly converters: readonly VersionTextConverter[] = builtInTextConverters
+  ) {}
 
-    if (!localPath || !versionId) {
+  public async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
+    const source = parseVersionUri(uri);
+    if (!source) {
       return "Invalid OneDrive version URI.";
     }
 
-    const bytes = await this.client.downloadVersionBytes(localPath, versionId);
-    return this.decodeAsText(bytes);
+    const { localPath, versionId } = source;
+
+    const bytes = versionId === LOCAL_FILE_VERSION_ID
+      ? await fs.promises.readFile(localPath)
+      : await withAbortSignal(token, (signal) => this.client.downloadVersionBytes(localPath, versionId, { signal }));
+    return this.decodeAsText(localPath, bytes);
+  }
+
+  public refresh(uri: vscode.Uri): void {
+    this.onDidChangeEmitter.fire(uri);
   }
 
-  private decodeAsText(bytes: Uint8Array): string {
+  public hasConverter(localPath: string): boolean {
+    return findTextConverter(localPath, this.converters) !== undefined;
+  }
+
+  // Returns undefined for binary content; converter failures are thrown.
+  public extractText(localPath: string, bytes: Uint8Array): string | undefined {
+    const converter = findTextConverter(localPath, this.converters);
+    if (converter) {
+      return converter.convert(bytes);
+    }
+
     const decoder = new TextDecoder("utf-8", { fatal: false });
     const text = decoder.decode(bytes);
-    if (text.includes("\u0000")) {
-      return "This version appears to be binary content. Use 'Save Version As...' or 'Restore Selected Version'.";
+    return text.includes("\u0000") ? undefined : text;
+  }
+
+  private decodeAsText(localPath: string, bytes: Uint8Array): string {
+    try {
+      return this.extractText(localPath, bytes) ?? "This version appears to be binary content. Use 'Save Version As...' or 'Restore Selected Version'.";
+    } catch (error) {
+      return `Unable to extract text from this ${findTextConverter(localPath, this.converters)?.label ?? "file"} version: ${errorMessage(error)}`;
+    }
+  }
+}
+
+class OneDriveVersionTreeProvider implements vscode.TreeDataProvider<VersionTreeNode> {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<VersionTreeNode | undefined>();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  public constructor(private readonly client: OneDriveClient) {}
+
+  public refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  public getChildren(element?: VersionTreeNode): VersionTreeNode[] {
+    if (element) {
+      return [];
+    }
+
+    const localPath = getActiveFilePath();
+    const state = localPath ? this.client.getCachedContext(localPath) : undefined;
+    if (!localPath || !state) {
+      return [];
+    }
+    return state.versions.map((_, index) => ({ localPath, index }));
+  }
+
+  public getParent(): undefined {
+    return undefined;
+  }
+
+  public getTreeItem(element: VersionTreeNode): vscode.TreeItem {
+    const state = this.client.getCachedContext(element.localPath);
+    const version = state?.versions[element.index];
+    if (!state || !version) {
+      return new vscode.TreeItem("Version unavailable");
+    }
+
+    const modifiedBy = version.lastModifiedBy?.user?.displayName ?? "unknown";
+    const item = new vscode.TreeItem(new Date(version.lastModifiedDateTime).toLocaleString());
+    item.id = `${element.localPath}#${version.id}`;
+    item.description = `${modifiedBy} | ${formatVersionSize(version.size)}`;
+    item.tooltip = `Version ID: ${version.id}`;
+    item.contextValue = "oneDriveVersion";
+    item.iconPath = new vscode.ThemeIcon(state.selectedIndex === element.index ? "check" : "history");
+    return item;
+  }
+
+  public getSelectedNode(localPath: string): VersionTreeNode | undefined {
+    const state = this.client.getCachedContext(localPath);
+    if (!state?.versions[state.selectedIndex]) {
+      return undefined;
+    }
+    return { localPath, index: state.selectedIndex };
+  }
+}
+
+interface VersionAnnotation {
+  localPath: string;
+  // Index into VersionContext.versions for each document line; undefined for lines not yet in OneDrive.
+  owners: Array<number | undefined>;
+  versions: GraphVersion[];
+  oldestIndex: number;
+  truncated: boolean;
+}
+
+class OneDriveAnnotationController implements vscode.Disposable {
+  private readonly decorationType = vscode.window.createTextEditorDecorationType({
+    before: {
+      color: new vscode.ThemeColor("editorCodeLens.foreground"),
+      fontStyle: "italic",
+      margin: "0 1.5em 0 0"
+    }
+  });
+  private readonly annotations = new Map<string, VersionAnnotation>();
+
+  public constructor(private readonly client: OneDriveClient) {}
+
+  public isAnnotated(document: vscode.TextDocument): boolean {
+    return this.annotations.has(document.uri.toString());
+  }
+
+  public annotate(editor: vscode.TextEditor, progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken): Promise<void> {
+    return withAbortSignal(token, (signal) => this.annotateWithSignal(editor, progress, token, signal));
+  }
+
+  private async annotateWithSignal(
+    editor: vscode.TextEditor,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken,
+    signal: AbortSignal
+  ): Promise<void> {
+    const document = editor.document;
+    const localPath = document.uri.fsPath;
+    const state = await this.client.loadAllVersionsForFile(localPath, { signal });
+    if (!state.versions.length) {
+      throw new Error("No versions available.");
+    }
+
+    const maxVersions = Math.max(2, vscode.workspace.getConfiguration("onedriveVersions").get<number>("annotate.maxVersions", 50));
+    const count = Math.min(state.versions.length, maxVersions);
+    const versions = state.versions.slice(0, count);
+    let done = 0;
+    const texts = await mapWithConcurrency(versions, MAX_PARALLEL_VERSION_DOWNLOADS, async (version) => {
+      const bytes = await this.client.downloadVersionBytes(localPath, version.id, { signal });
+      progress.report({ message: `Downloaded ${++done} of ${count} versions`, increment: 100 / count });
+      const text = new TextDecoder("utf-8", { fatal: false }).decode(bytes);
+      // Binary versions cannot be diffed line by line; treat them as empty so the next text version owns its lines.
+      return text.includes("\u0000") ? "" : text;
+    });
+    if (token.isCancellationRequested) {
+      return;
+    }
+
+    // Chain runs oldest to newest and ends with the editor text, which may hold changes not yet synced.
+    const chain = [...texts].reverse();
+    chain.push(document.getText());
+    const owners = attributeLines(chain).map((chainIndex) => (chainIndex < count ? count - 1 - chainIndex : undefined));
+
+    this.annotations.set(document.uri.toString(), {
+      localPath,
+      owners,
+      versions,
+      oldestIndex: count - 1,
+      truncated: count < state.versions.length
+    });
+    this.applyToVisibleEditors();
+  }
+
+  public clear(document: vscode.TextDocument): void {
+    if (this.annotations.delete(document.uri.toString())) {
+      for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document === document) {
+          editor.setDecorations(this.decorationType, []);
+        }
+      }
+    }
+  }
+
+  public applyToVisibleEditors(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      const annotation = this.annotations.get(editor.document.uri.toString());
+      if (annotation) {
+        editor.setDecorations(this.decorationType, this.buildDecorations(editor.document, annotation));
+      }
+    }
+  }
+
+  public dispose(): void {
+    this.annotations.clear();
+    this.decorationType.dispose();
+  }
+
+  private buildDecorations(document: vscode.TextDocument, annotation: VersionAnnotation): vscode.DecorationOptions[] {
+    const width = 30;
+    const decorations: vscode.DecorationOptions[] = [];
+    const lineCount = Math.min(document.lineCount, annotation.owners.length);
+    for (let line = 0; line < lineCount; line++) {
+      const owner = annotation.owners[line];
+      const version = owner === undefined ? undefined : annotation.versions[owner];
+      let label = "";
+      // Like git blame, only the first line of a run from the same version carries a label.
+      if (line === 0 || annotation.owners[line - 1] !== owner) {
+        label = version
+          ? `${(version.lastModifiedBy?.user?.displayName ?? "unknown").slice(0, width - 12)} ${new Date(version.lastModifiedDateTime).toLocaleDateString()}`
+          : "Not synced yet";
+      }
+      decorations.push({
+        range: new vscode.Range(line, 0, line, 0),
+        renderOptions: { before: { contentText: label.padEnd(width, "\u00a0") } },
+        hoverMessage: this.buildHover(annotation, owner)
+      });
+    }
+    return decorations;
+  }
+
+  private buildHover(annotation: VersionAnnotation, owner: number | undefined): vscode.MarkdownString {
+    const hover = new vscode.MarkdownString();
+    const version = owner === undefined ? undefined : annotation.versions[owner];
+    if (!version) {
+      hover.appendMarkdown("Local change that is not in any OneDrive version yet.");
+      return hover;
+    }
+
+    hover.appendMarkdown(`**${version.lastModifiedBy?.user?.displayName ?? "unknown"}** · ${new Date(version.lastModifiedDateTime).toLocaleString()}\n\n`);
+    hover.appendMarkdown(`Version ${version.id} · ${formatVersionSize(version.size)}\n\n`);
+    if (owner === annotation.oldestIndex && annotation.truncated) {
+      hover.appendMarkdown(`Introduced in this version or earlier (only the newest ${annotation.versions.length} versions were annotated).\n\n`);
+    }
+    const node: VersionTreeNode = { localPath: annotation.localPath, index: owner ?? 0 };
+    const args = encodeURIComponent(JSON.stringify([node]));
+    hover.appendMarkdown(`[Open diff at this version](command:onedriveVersions.compareWithPrevious?${args})`);
+    hover.isTrusted = { enabledCommands: ["onedriveVersions.compareWithPrevious"] };
+    return hover;
+  }
+}
+
+class OneDriveTimelineProvider implements vscode.TimelineProvider {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.TimelineChangeEvent | undefined>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  public readonly id = "onedriveVersions";
+  public readonly label = "OneDrive Versions";
+
+  public constructor(private readonly client: OneDriveClient) {}
+
+  public refresh(localPath: string): void {
+    this.onDidChangeEmitter.fire({ uri: vscode.Uri.file(localPath), reset: true });
+  }
+
+  public async provideTimeline(uri: vscode.Uri, _options: vscode.TimelineOptions, token: vscode.CancellationToken): Promise<vscode.Timeline> {
+    if (uri.scheme !== "file" || !this.client.findOneDriveRoot(uri.fsPath)) {
+      return { items: [] };
+    }
+
+    const localPath = uri.fsPath;
+    let state = this.client.getCachedContext(localPath);
+    if (!state) {
+      try {
+        // Timeline queries are passive, so never surface a sign-in prompt from here.
+        state = await withAbortSignal(token, (signal) => this.client.loadVersionsForFile(localPath, { interactive: false, signal }));
+      } catch {
+        return { items: [] };
+      }
+    }
+
+    const items = state.versions.map((version, index): vscode.TimelineItem => {
+      const modifiedBy = version.lastModifiedBy?.user?.displayName ?? "unknown";
+      const node: VersionTreeNode = { localPath, index };
+      return {
+        id: `onedrive:${version.id}`,
+        label: index === 0 ? "OneDrive (latest)" : "OneDrive version",
+        timestamp: new Date(version.lastModifiedDateTime).getTime(),
+        description: `${modifiedBy} | ${formatVersionSize(version.size)}`,
+        tooltip: `Version ID: ${version.id}`,
+        iconPath: new vscode.ThemeIcon("cloud"),
+        contextValue: "oneDriveVersion",
+        command: {
+          command: "onedriveVersions.previewVersion",
+          title: "Preview Version Diff",
+          arguments: [node]
+        }
+      };
+    });
+    return { items };
+  }
+}
+
+class OneDriveSnapshotFileSystemProvider implements vscode.FileSystemProvider {
+  private readonly onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  public readonly onDidChangeFile = this.onDidChangeFileEmitter.event;
+  // Keyed by snapshot stamp and local path; undefined records a file that had no version at that time.
+  // Capped at MAX_SNAPSHOT_CACHED_VERSIONS (oldest first) and cleared when a snapshot folder is removed.
+  private readonly versionCache = new Map<string, GraphVersion | undefined>();
+
+  public constructor(private readonly client: OneDriveClient) {}
+
+  public static toUri(localPath: string, pointInTime: Date): vscode.Uri {
+    return vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, authority: toSnapshotStamp(pointInTime), path: vscode.Uri.file(localPath).path });
+  }
+
+  public static toLocalPath(uri: vscode.Uri): string {
+    return vscode.Uri.from({ scheme: "file", path: uri.path }).fsPath;
+  }
+
+  public forgetSnapshot(uri: vscode.Uri): void {
+    const pointInTime = parseSnapshotStamp(uri.authority);
+    if (!pointInTime) {
+      return;
+    }
+    const prefix = `${pointInTime.getTime()}|`;
+    for (const key of [...this.versionCache.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.versionCache.delete(key);
+      }
+    }
+  }
+
+  public watch(): vscode.Disposable {
+    // Snapshots never change.
+    return new vscode.Disposable(() => undefined);
+  }
+
+  public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const localPath = OneDriveSnapshotFileSystemProvider.toLocalPath(uri);
+    const pointInTime = this.getPointInTime(uri);
+    const local = await this.statLocal(uri, localPath);
+    if (local.isDirectory()) {
+      return { type: vscode.FileType.Directory, ctime: local.ctimeMs, mtime: pointInTime.getTime(), size: 0, permissions: vscode.FilePermission.Readonly };
+    }
+
+    const version = await this.findVersion(localPath, pointInTime).catch((error) => {
+      throw toSnapshotFileSystemError(uri, error);
+    });
+    if (!version) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const modified = new Date(version.lastModifiedDateTime).getTime();
+    return { type: vscode.FileType.File, ctime: modified, mtime: modified, size: version.size ?? 0, permissions: vscode.FilePermission.Readonly };
+  }
+
+  public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const localPath = OneDriveSnapshotFileSystemProvider.toLocalPath(uri);
+    const pointInTime = this.getPointInTime(uri);
+    await this.statLocal(uri, localPath);
+
+    const children: [string, vscode.FileType][] = [];
+    for (const entry of await fs.promises.readdir(localPath, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        children.push([entry.name, vscode.FileType.Directory]);
+        continue;
+      }
+      if (!entry.isFile()) {
+        continue;
+      }
+      try {
+        if (await this.findVersion(path.join(localPath, entry.name), pointInTime)) {
+          children.push([entry.name, vscode.FileType.File]);
+        }
+      } catch (error) {
+        // Files that never reached OneDrive have no snapshot content; anything else (sign-in, network) fails the listing.
+        if (!isOneDriveErrorKind(error, "notInOneDriveRoot") && !isOneDriveErrorKind(error, "itemNotFound") && !isGraphNotFound(error)) {
+          throw vscode.FileSystemError.Unavailable(errorMessage(error));
+        }
+      }
+    }
+    return children;
+  }
+
+  public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const localPath = OneDriveSnapshotFileSystemProvider.toLocalPath(uri);
+    try {
+      const version = await this.findVersion(localPath, this.getPointInTime(uri));
+      if (!version) {
+        throw vscode.FileSystemError.FileNotFound(uri);
+      }
+      return await this.client.downloadVersionBytes(localPath, version.id, { interactive: false });
+    } catch (error) {
+      throw toSnapshotFileSystemError(uri, error);
+    }
+  }
+
+  public createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  private getPointInTime(uri: vscode.Uri): Date {
+    const pointInTime = parseSnapshotStamp(uri.authority);
+    if (!pointInTime) {
+      throw vscode.FileSystemError.FileNotFound(uri);
     }
-    return text;
+    return pointInTime;
+  }
+
+  private async statLocal(uri: vscode.Uri, localPath: string): Promise<fs.Stats> {
+    try {
+      return await fs.promises.stat(localPath);
+    } catch {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+  }
+
+  private async findVersion(localPath: string, pointInTime: Date): Promise<GraphVersion | undefined> {
+    const key = `${pointInTime.getTime()}|${localPath}`;
+    if (this.versionCache.has(key)) {
+      return this.versionCache.get(key);
+    }
+    // File system calls must never open sign-in prompts; a missing token surfaces as Unavailable.
+    const state = await this.client.loadAllVersionsForFile(localPath, { interactive: false });
+    const index = findVersionAtOrBefore(state.versions, pointInTime.getTime());
+    const version = index === undefined ? undefined : state.versions[index];
+    this.versionCache.set(key, version);
+    for (const oldest of this.versionCache.keys()) {
+      if (this.versionCache.size <= MAX_SNAPSHOT_CACHED_VERSIONS) {
+        break;
+      }
+      this.versionCache.delete(oldest);
+    }
+    return version;
   }
 }
 
 export function activate(context: vscode.ExtensionContext): void {
-  const client = new OneDriveClient();
+  const contentCache = new VersionContentCache(
+    vscode.Uri.joinPath(context.globalStorageUri, "version-content").fsPath,
+    () => Math.max(0, vscode.workspace.getConfiguration("onedriveVersions").get<number>("cache.maxSizeMB", 256)) * 1024 * 1024
+  );
+  context.subscriptions.push({ dispose: () => void contentCache.flush().catch(() => undefined) });
+  const client = new OneDriveClient(
+    context.secrets,
+    context.globalState,
+    contentCache,
+    new VersionListStore<GraphVersion>(vscode.Uri.joinPath(context.globalStorageUri, "resolved-versions").fsPath)
+  );
   const contentProvider = new OneDriveVersionContentProvider(client);
   const onboardingKey = "onedriveVersions.onboardingPromptShown";
   const versionBadge = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
@@ -629,7 +1912,40 @@ export function activate(context: vscode.ExtensionContext): void {
   versionBadge.name = "OneDrive Version";
   context.subscriptions.push(versionBadge);
 
+  const resolutionChannel = vscode.window.createOutputChannel("OneDrive Versions: Resolution");
+  context.subscriptions.push(resolutionChannel);
+
+  const restoreJournal = new RestoreJournal(vscode.Uri.joinPath(context.globalStorageUri, "restore-backups").fsPath, MAX_RESTORE_JOURNAL_ENTRIES);
+
+  const versionTreeProvider = new OneDriveVersionTreeProvider(client);
+  const versionTree = vscode.window.createTreeView("onedriveVersions.versions", { treeDataProvider: versionTreeProvider });
+  context.subscriptions.push(versionTree);
+
   context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(CONTENT_SCHEME, contentProvider));
+  const snapshotProvider = new OneDriveSnapshotFileSystemProvider(client);
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(SNAPSHOT_SCHEME, snapshotProvider, {
+      isCaseSensitive: process.platform === "linux",
+      isReadonly: true
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+      for (const folder of event.removed) {
+        if (folder.uri.scheme === SNAPSHOT_SCHEME) {
+          snapshotProvider.forgetSnapshot(folder.uri);
+        }
+      }
+    })
+  );
+
+  const timelineProvider = new OneDriveTimelineProvider(client);
+  try {
+    context.subscriptions.push(vscode.workspace.registerTimelineProvider("file", timelineProvider));
+  } catch {
+    // The Timeline API is still proposed; hosts that do not enable it simply skip this integration.
+  }
+
+  const annotations = new OneDriveAnnotationController(client);
+  context.subscriptions.push(annotations);
 
   const openSetupGuide = async (): Promise<void> => {
     const readmeUri = vscode.Uri.joinPath(context.extensionUri, "README.md");
@@ -638,9 +1954,9 @@ export function activate(context: vscode.ExtensionContext): void {
   };
 
   const handleOneDriveError = async (error: unknown): Promise<void> => {
-    const message = error instanceof Error ? error.message : String(error);
+    const message = errorMessage(error);
 
-    if (message.includes("AADSTS65002")) {
+    if (isOneDriveErrorKind(error, "tenantAuthBlocked")) {
       const action = await vscode.window.showErrorMessage(
         "OneDrive Versions: Tenant policy blocked VS Code auth. Switch to device-code auth?",
         "Switch Auth Mode",
@@ -655,9 +1971,9 @@ export function activate(context: vscode.ExtensionContext): void {
       return;
     }
 
-    if (message.includes("auth.clientId")) {
+    if (isOneDriveErrorKind(error, "authNotConfigured")) {
       const action = await vscode.window.showErrorMessage(
-        "OneDrive Versions: Device-code auth is not configured yet.",
+        "OneDrive Versions: Device-code and browser sign-in are not configured yet.",
         "Open Settings",
         "Open Setup Guide"
       );
@@ -669,6 +1985,12 @@ export function activate(context: vscode.ExtensionContext): void {
       return;
     }
 
+    if (error instanceof GraphError && error.requestId) {
+      const requestInfo = error.date ? `request-id ${error.requestId}, ${error.date}` : `request-id ${error.requestId}`;
+      void vscode.window.showErrorMessage(`OneDrive Versions: ${message} (${requestInfo})`);
+      return;
+    }
+
     void vscode.window.showErrorMessage(`OneDrive Versions: ${message}`);
   };
 
@@ -679,9 +2001,9 @@ export function activate(context: vscode.ExtensionContext): void {
     }
 
     const authMode = client.getAuthMode();
-    if (authMode === "deviceCode" && !client.hasDeviceCodeClientId()) {
+    if (authMode !== "vscode" && !client.hasDeviceCodeClientId()) {
       const action = await vscode.window.showInformationMessage(
-        "OneDrive Versions needs a Microsoft app client ID for device-code sign in.",
+        "OneDrive Versions needs a Microsoft app client ID for device-code or browser sign in.",
         "Open Settings",
         "Open Setup Guide"
       );
@@ -695,6 +2017,7 @@ export function activate(context: vscode.ExtensionContext): void {
   };
 
   const updateActiveContext = async (): Promise<void> => {
+    await vscode.commands.executeCommand("setContext", "oneDriveVersions.inVersionDiff", getActiveVersionSource() !== undefined);
     const localPath = getActiveFilePath();
     const active = Boolean(localPath && client.findOneDriveRoot(localPath));
     await vscode.commands.executeCommand("setContext", "oneDriveVersions.active", active);
@@ -706,25 +2029,56 @@ export function activate(context: vscode.ExtensionContext): void {
 
     const cached = client.getCachedContext(localPath);
     await vscode.commands.executeCommand("setContext", "oneDriveVersions.hasVersions", Boolean(cached?.versions.length));
+    if (cached) {
+      // Sync may have uploaded or downloaded the file since it was last active.
+      refreshSyncStatus(localPath);
+    }
 
     const autoLoad = vscode.workspace.getConfiguration("onedriveVersions").get<boolean>("autoLoadVersions", true);
     if (autoLoad && !cached) {
       try {
         await client.loadVersionsForFile(localPath, { interactive: false });
         await vscode.commands.executeCommand("setContext", "oneDriveVersions.hasVersions", true);
+        updateVersionViews();
+        timelineProvider.refresh(localPath);
+        refreshSyncStatus(localPath);
       } catch (error) {
-        const msg = error instanceof Error ? error.message : String(error);
-        if (msg === "AUTH_REQUIRED") {
+        if (isAuthRequired(error)) {
           await vscode.commands.executeCommand("setContext", "oneDriveVersions.hasVersions", false);
           return;
         }
-        if (!msg.includes("inside a detected OneDrive root")) {
+        if (!isOneDriveErrorKind(error, "notInOneDriveRoot")) {
           await handleOneDriveError(error);
         }
       }
     }
   };
 
+  const syncStatuses = new Map<string, LocalSyncStatus>();
+  const syncStatusTimers = new Map<string, NodeJS.Timeout>();
+  context.subscriptions.push({ dispose: () => syncStatusTimers.forEach((timer) => clearTimeout(timer)) });
+
+  // Debounced so bursts of saves and editor switches cost one check.
+  const refreshSyncStatus = (localPath: string, options: SyncStatusOptions = {}): void => {
+    const key = path.resolve(localPath);
+    clearTimeout(syncStatusTimers.get(key));
+    syncStatusTimers.set(
+      key,
+      setTimeout(async () => {
+        syncStatusTimers.delete(key);
+        try {
+          syncStatuses.set(key, await client.getSyncStatus(localPath, { ...options, interactive: false }));
+        } catch {
+          syncStatuses.delete(key);
+        }
+        const activePath = getActiveFilePath();
+        if (activePath && samePath(activePath, localPath)) {
+          updateVersionViews();
+        }
+      }, SYNC_STATUS_DEBOUNCE_MS)
+    );
+  };
+
   const updateVersionBadge = (): void => {
     const localPath = getActiveFilePath();
     if (!localPath) {
@@ -746,37 +2100,161 @@ export function activate(context: vscode.ExtensionContext): void {
 
     const dateLabel = new Date(selected.lastModifiedDateTime).toLocaleString();
     const author = selected.lastModifiedBy?.user?.displayName ?? "unknown";
-    versionBadge.text = `$(history) OneDrive: ${dateLabel}`;
-    versionBadge.tooltip = `Selected version ${selected.id} by ${author}`;
+    const sync = syncStatuses.get(path.resolve(localPath));
+    let syncLabel = "";
+    let syncTooltip = "";
+    if (sync?.state === "inSync") {
+      syncLabel = " · $(check) in sync";
+      syncTooltip = "\nThe local file matches the current OneDrive version.";
+    } else if (sync?.state === "localChanges") {
+      syncLabel = " · $(cloud-upload) local changes not yet synced";
+      syncTooltip = "\nThe local file differs from every checked OneDrive version.";
+    } else if (sync?.state === "cloudNewer") {
+      syncLabel = " · $(cloud-download) newer version in OneDrive";
+      syncTooltip = `\nThe local file matches older version ${sync.matchingVersionId}.`;
+    }
+    versionBadge.text = `$(history) OneDrive: ${dateLabel}${syncLabel}`;
+    versionBadge.tooltip = `Selected version ${selected.id} by ${author}${syncTooltip}`;
     versionBadge.show();
   };
 
-  const openSelectedVersionPreview = async (localPath: string): Promise<void> => {
-    const data = client.getCachedContext(localPath) ?? (await client.loadVersionsForFile(localPath));
-    const version = data.versions[data.selectedIndex];
-    if (!version) {
-      throw new Error("No version selected.");
+  const updateVersionTree = (): void => {
+    const localPath = getActiveFilePath();
+    versionTreeProvider.refresh();
+    versionTree.description = localPath ? path.basename(localPath) : undefined;
+
+    const state = localPath ? client.getCachedContext(localPath) : undefined;
+    if (!localPath || !client.findOneDriveRoot(localPath)) {
+      versionTree.message = "Open a file from a OneDrive folder to see its versions.";
+      return;
     }
+    if (!state) {
+      versionTree.message = "Versions not loaded yet. Run 'OneDrive: Pick Version' or refresh this view.";
+      return;
+    }
+    versionTree.message = state.loadingMore ? "Loading older versions..." : undefined;
 
-    const fileName = path.basename(localPath);
-    const uri = vscode.Uri.from({
-      scheme: CONTENT_SCHEME,
-      path: `/${fileName}`,
-      query: `local=${encodeURIComponent(localPath)}`,
-      fragment: `version=${encodeURIComponent(version.id)}`
-    });
+    const selectedNode = versionTreeProvider.getSelectedNode(localPath);
+    if (selectedNode && versionTree.visible) {
+      void versionTree.reveal(selectedNode, { select: true, focus: false });
+    }
+  };
+
+  const updateVersionViews = (): void => {
+    updateVersionBadge();
+    updateVersionTree();
+  };
+
+  let binaryPanel: vscode.WebviewPanel | undefined;
+
+  const readVersionBytes = (localPath: string, versionId: string): Promise<Uint8Array> =>
+    versionId === LOCAL_FILE_VERSION_ID ? fs.promises.readFile(localPath) : client.downloadVersionBytes(localPath, versionId);
+
+  // Images and other binaries open in a webview instead of the text diff; returns false for text content.
+  const tryOpenBinaryComparison = async (
+    localPath: string,
+    left: { label: string; versionId: string },
+    right: { label: string; versionId: string }
+  ): Promise<boolean> => {
+    if (contentProvider.hasConverter(localPath)) {
+      return false;
+    }
+    const leftBytes = await readVersionBytes(localPath, left.versionId);
+    if (!getImageMimeType(localPath) && !isProbablyBinary(leftBytes)) {
+      return false;
+    }
+    const rightBytes = await readVersionBytes(localPath, right.versionId);
+
+    const fileName = path.basename(localPath);
+    const title = `${fileName} (${left.label}) ↔ (${right.label})`;
+    if (!binaryPanel) {
+      binaryPanel = vscode.window.createWebviewPanel("onedriveVersions.binaryCompare", title, vscode.ViewColumn.Active, {
+        enableScripts: true,
+        localResourceRoots: []
+      });
+      binaryPanel.onDidDispose(() => {
+        binaryPanel = undefined;
+      });
+    }
+    binaryPanel.title = title;
+    binaryPanel.webview.html = renderBinaryComparisonHtml(
+      fileName,
+      { label: left.label, bytes: leftBytes },
+      { label: right.label, bytes: rightBytes },
+      binaryPanel.webview.cspSource
+    );
+    binaryPanel.reveal();
+    return true;
+  };
+
+  const openSelectedVersionPreview = async (localPath: string): Promise<void> => {
+    const data = client.getCachedContext(localPath) ?? (await client.loadVersionsForFile(localPath));
+    const version = data.versions[data.selectedIndex];
+    if (!version) {
+      throw new Error("No version selected.");
+    }
 
-    const currentUri = vscode.Uri.file(localPath);
+    const fileName = path.basename(localPath);
     const dateLabel = new Date(version.lastModifiedDateTime).toLocaleString();
+    if (await tryOpenBinaryComparison(localPath, { label: `OneDrive ${dateLabel}`, versionId: version.id }, { label: "Current", versionId: LOCAL_FILE_VERSION_ID })) {
+      updateVersionViews();
+      return;
+    }
+
+    let currentUri = vscode.Uri.file(localPath);
+    if (contentProvider.hasConverter(localPath)) {
+      // Converted formats are compared as extracted text on both sides; re-read the local file each time.
+      currentUri = toVersionUri(localPath, LOCAL_FILE_VERSION_ID);
+      contentProvider.refresh(currentUri);
+    }
     const title = `${fileName} (OneDrive ${dateLabel}) ↔ Current`;
-    await vscode.commands.executeCommand("vscode.diff", uri, currentUri, title, { preview: true });
-    updateVersionBadge();
+    await vscode.commands.executeCommand("vscode.diff", toVersionUri(localPath, version.id), currentUri, title, { preview: true });
+    updateVersionViews();
+  };
+
+  const openVersionComparison = async (
+    localPath: string,
+    data: VersionContext,
+    firstIndex: number,
+    secondIndex: number,
+    selection?: vscode.Range
+  ): Promise<void> => {
+    // Versions are sorted newest first, so the higher index is the older side of the diff.
+    const older = data.versions[Math.max(firstIndex, secondIndex)];
+    const newer = data.versions[Math.min(firstIndex, secondIndex)];
+    if (!older || !newer) {
+      throw new Error("Version not found.");
+    }
+
+    const fileName = path.basename(localPath);
+    const olderLabel = new Date(older.lastModifiedDateTime).toLocaleString();
+    const newerLabel = new Date(newer.lastModifiedDateTime).toLocaleString();
+    if (
+      await tryOpenBinaryComparison(
+        localPath,
+        { label: `OneDrive ${olderLabel}`, versionId: older.id },
+        { label: `OneDrive ${newerLabel}`, versionId: newer.id }
+      )
+    ) {
+      return;
+    }
+
+    const title = `${fileName} (OneDrive ${olderLabel}) ↔ (OneDrive ${newerLabel})`;
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      toVersionUri(localPath, older.id),
+      toVersionUri(localPath, newer.id),
+      title,
+      { preview: true, selection }
+    );
   };
 
-  const ensureVersions = async (localPath: string): Promise<VersionContext> => {
-    const loaded = await client.loadVersionsForFile(localPath);
+  const ensureVersions = async (localPath: string, options: RequestOptions = {}): Promise<VersionContext> => {
+    const loaded = await client.loadVersionsForFile(localPath, options);
     await vscode.commands.executeCommand("setContext", "oneDriveVersions.hasVersions", loaded.versions.length > 0);
-    updateVersionBadge();
+    updateVersionViews();
+    timelineProvider.refresh(localPath);
+    refreshSyncStatus(localPath);
     return loaded;
   };
 
@@ -788,15 +2266,450 @@ export function activate(context: vscode.ExtensionContext): void {
     const clamped = Math.max(0, Math.min(state.versions.length - 1, nextIndex));
     state.selectedIndex = clamped;
     await openSelectedVersionPreview(localPath);
-    updateVersionBadge();
+    updateVersionViews();
+  };
+
+  const pickVersionIndex = (localPath: string, state: VersionContext, placeHolder: string): Promise<number | undefined> => {
+    type VersionPickItem = vscode.QuickPickItem & { versionId: string };
+    const picker = vscode.window.createQuickPick<VersionPickItem>();
+    picker.title = "OneDrive Versions";
+    picker.placeholder = placeHolder;
+
+    const render = (): void => {
+      const activeId = picker.activeItems[0]?.versionId;
+      picker.items = state.versions.map((version) => {
+        const modifiedBy = version.lastModifiedBy?.user?.displayName ?? "unknown";
+        const dateString = new Date(version.lastModifiedDateTime).toLocaleString();
+        const isSelected = state.versions[state.selectedIndex]?.id === version.id;
+        const matchesLocal = syncStatuses.get(path.resolve(localPath))?.matchingVersionId === version.id;
+        return {
+          label: `${isSelected ? "$(check) " : ""}${dateString}`,
+          description: `${modifiedBy} | ${formatVersionSize(version.size)}${matchesLocal ? " | $(device-desktop) matches local file" : ""}`,
+          detail: `Version ID: ${version.id}`,
+          versionId: version.id
+        };
+      });
+      const active = picker.items.find((item) => item.versionId === activeId);
+      if (active) {
+        picker.activeItems = [active];
+      }
+      picker.busy = state.loadingMore;
+    };
+
+    return new Promise<number | undefined>((resolve) => {
+      let result: number | undefined;
+      const subscriptions: vscode.Disposable[] = [
+        client.onDidChangeVersions((changedPath) => {
+          if (samePath(changedPath, localPath)) {
+            render();
+          }
+        }),
+        picker.onDidAccept(() => {
+          const versionId = picker.selectedItems[0]?.versionId;
+          const index = state.versions.findIndex((version) => version.id === versionId);
+          result = index >= 0 ? index : undefined;
+          picker.hide();
+        }),
+        picker.onDidHide(() => {
+          subscriptions.forEach((subscription) => subscription.dispose());
+          picker.dispose();
+          resolve(result);
+        })
+      ];
+      render();
+      picker.show();
+    });
+  };
+
+  const getRestoreMode = (): "local" | "server" =>
+    vscode.workspace.getConfiguration("onedriveVersions").get<"local" | "server">("restore.mode", "local");
+
+  // Every restore first snapshots the local bytes into the restore journal so it can be undone,
+  // including server restores whose result has not synced down yet. The entry is recorded before
+  // anything changes and dropped again when the restore fails.
+  const restoreFileToVersion = async (
+    localPath: string,
+    version: GraphVersion,
+    mode: "local" | "server",
+    batchId?: string
+  ): Promise<RestoreOutcome> => {
+    const backup = await fs.promises.readFile(localPath).catch(() => undefined);
+    const journalInput = { localPath, versionId: version.id, versionDate: version.lastModifiedDateTime, batchId };
+
+    const withBackup = async (restoreMode: "local" | "server", restore: () => Promise<void>): Promise<void> => {
+      const entry = backup ? await restoreJournal.record({ ...journalInput, mode: restoreMode }, backup) : undefined;
+      try {
+        await restore();
+      } catch (error) {
+        if (entry) {
+          await restoreJournal.remove(entry.id).catch(() => undefined);
+        }
+        throw error;
+      }
+    };
+
+    let writeRefused = false;
+    if (mode === "server") {
+      try {
+        await withBackup("server", async () => {
+          await client.restoreVersionOnServer(localPath, version.id);
+        });
+        return "server";
+      } catch (error) {
+        if (!isGraphWriteAccessRefused(error)) {
+          throw error;
+        }
+        writeRefused = true;
+      }
+    }
+
+    const bytes = await client.downloadVersionBytes(localPath, version.id);
+    await withBackup("local", async () => vscode.workspace.fs.writeFile(vscode.Uri.file(localPath), bytes));
+    return writeRefused ? "localAfterWriteRefused" : "local";
+  };
+
+  // Writes each entry's backup over the local file; OneDrive sync then uploads it as the current version.
+  const revertRestores = async (entries: RestoreJournalEntry[]): Promise<string[]> => {
+    const skipped: string[] = [];
+    for (const entry of entries) {
+      const openDocument = vscode.workspace.textDocuments.find(
+        (document) => document.uri.scheme === "file" && samePath(document.uri.fsPath, entry.localPath)
+      );
+      if (openDocument?.isDirty) {
+        skipped.push(entry.localPath);
+        continue;
+      }
+      const backup = await restoreJournal.readBackup(entry);
+      await vscode.workspace.fs.writeFile(vscode.Uri.file(entry.localPath), backup);
+      await restoreJournal.markReverted(entry.id);
+      client.clearCachedContext(entry.localPath);
+      syncStatuses.delete(path.resolve(entry.localPath));
+      timelineProvider.refresh(entry.localPath);
+    }
+    updateVersionViews();
+    return skipped;
+  };
+
+  const confirmAndRevert = async (entries: RestoreJournalEntry[]): Promise<void> => {
+    const target =
+      entries.length === 1
+        ? `${path.basename(entries[0].localPath)} to how it was before the restore on ${new Date(entries[0].restoredAt).toLocaleString()}`
+        : `${entries.length} files to how they were before the folder restore on ${new Date(entries[0].restoredAt).toLocaleString()}`;
+    const confirm = await vscode.window.showWarningMessage(
+      `Revert ${target}?`,
+      { modal: true, detail: "The local backup is written back and synced up as a new version." },
+      "Revert"
+    );
+    if (confirm !== "Revert") {
+      return;
+    }
+
+    const skipped = await revertRestores(entries);
+    if (skipped.length) {
+      void vscode.window.showWarningMessage(
+        `Skipped ${skipped.map((skippedPath) => path.basename(skippedPath)).join(", ")}: save or discard unsaved edits, then try again.`
+      );
+    }
+    if (skipped.length < entries.length) {
+      void vscode.window.showInformationMessage(`Reverted ${entries.length - skipped.length} file(s) from the restore backup.`);
+    }
+  };
+
+  const pickOneDriveFolder = async (folderUri: vscode.Uri | undefined, openLabel: string): Promise<string | undefined> => {
+    if (!folderUri) {
+      const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+      });
+      folderUri = picked?.[0];
+    }
+    if (!folderUri || folderUri.scheme !== "file") {
+      return undefined;
+    }
+    if (!client.findOneDriveRoot(folderUri.fsPath)) {
+      void vscode.window.showWarningMessage("This folder is not inside a detected OneDrive root.");
+      return undefined;
+    }
+    return folderUri.fsPath;
+  };
+
+  const recoverDeletedFile = async (deleted: DeletedDriveItem): Promise<void> => {
+    let versions: GraphVersion[] = [];
+    let versionsUnavailable = false;
+    try {
+      versions = await client.listDeletedFileVersions(deleted);
+    } catch (error) {
+      if (isAuthRequired(error)) {
+        throw error;
+      }
+      versionsUnavailable = true;
+    }
+
+    const latest = versions[0];
+    if (!deleted.restorableOnServer && !latest) {
+      void vscode.window.showInformationMessage(
+        `OneDrive did not return any versions of ${deleted.name}. Restore it from the OneDrive recycle bin on the web.`
+      );
+      return;
+    }
+
+    type RecoverPickItem = vscode.QuickPickItem & { version?: GraphVersion };
+    const restoreItem: RecoverPickItem = deleted.restorableOnServer
+      ? { label: "$(discard) Restore to Original Location", detail: deleted.localPath }
+      : {
+          label: "$(discard) Restore Latest Version to Original Location",
+          description: "OneDrive sync uploads it as a new file",
+          detail: deleted.localPath
+        };
+    const items: RecoverPickItem[] = [
+      restoreItem,
+      { label: "Versions", kind: vscode.QuickPickItemKind.Separator },
+      ...versions.map((version) => ({
+        label: `$(save-as) ${new Date(version.lastModifiedDateTime).toLocaleString()}`,
+        description: `${version.lastModifiedBy?.user?.displayName ?? "unknown"} | ${formatVersionSize(version.size)}`,
+        detail: `Save version ${version.id} as...`,
+        version
+      }))
+    ];
+    const choice = await vscode.window.showQuickPick(items, {
+      title: `Recover ${deleted.name}`,
+      placeHolder: versionsUnavailable && deleted.restorableOnServer
+        ? "OneDrive did not return version history for this deleted file. Restore it to see its versions."
+        : "Restore the file, or save one of its versions elsewhere"
+    });
+    if (!choice) {
+      return;
+    }
+
+    if (choice.version) {
+      const targetUri = await vscode.window.showSaveDialog({ title: "Save OneDrive Version As", defaultUri: vscode.Uri.file(deleted.localPath) });
+      if (!targetUri) {
+        return;
+      }
+      const bytes = await client.downloadDeletedFileVersion(deleted, choice.version.id);
+      await vscode.workspace.fs.writeFile(targetUri, bytes);
+      void vscode.window.showInformationMessage(`Saved version ${choice.version.id} to ${targetUri.fsPath}`);
+      return;
+    }
+
+    let fallbackReason: string | undefined;
+    if (deleted.restorableOnServer) {
+      try {
+        await client.restoreDeletedFile(deleted);
+        void vscode.window.showInformationMessage(`Restored ${deleted.name} in OneDrive. OneDrive sync will download it to ${path.dirname(deleted.localPath)}.`);
+        return;
+      } catch (error) {
+        if (!latest || !(isGraphWriteAccessRefused(error) || isGraphRestoreUnsupported(error))) {
+          throw error;
+        }
+        fallbackReason = isGraphWriteAccessRefused(error)
+          ? "OneDrive write permission was not granted."
+          : "OneDrive cannot restore deleted files on this drive.";
+      }
+    }
+    if (!latest) {
+      return;
+    }
+
+    if (fs.existsSync(deleted.localPath)) {
+      throw new Error(`${deleted.name} already exists in the local folder. Save a version elsewhere instead.`);
+    }
+    const bytes = await client.downloadDeletedFileVersion(deleted, latest.id);
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(deleted.localPath), bytes);
+    if (fallbackReason) {
+      void vscode.window.showWarningMessage(
+        `${fallbackReason} The latest version was written to the local folder instead, and OneDrive sync will upload it as a new file.`
+      );
+    } else {
+      void vscode.window.showInformationMessage(`Wrote the latest version of ${deleted.name} to ${path.dirname(deleted.localPath)}. OneDrive sync will upload it as a new file.`);
+    }
+  };
+
+  const planFolderRestore = async (
+    folder: string,
+    files: string[],
+    pointInTime: Date,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<FolderRestoreEntry[]> => {
+    const entries: FolderRestoreEntry[] = [];
+    for (const localPath of files) {
+      const relativePath = path.relative(folder, localPath);
+      if (token.isCancellationRequested) {
+        entries.push({ localPath, relativePath, status: "notChecked" });
+        continue;
+      }
+      progress.report({ message: `Checking ${relativePath}`, increment: 100 / files.length });
+      try {
+        const state = await withAbortSignal(token, (signal) => client.loadAllVersionsForFile(localPath, { signal }));
+        const index = findVersionAtOrBefore(state.versions, pointInTime.getTime());
+        if (index === undefined) {
+          entries.push({ localPath, relativePath, status: "createdLater", detail: "No version existed at that time" });
+        } else if (index === 0) {
+          entries.push({ localPath, relativePath, status: "unchanged", version: state.versions[0] });
+        } else {
+          entries.push({ localPath, relativePath, status: "restore", version: state.versions[index] });
+        }
+      } catch (error) {
+        entries.push(
+          token.isCancellationRequested
+            ? { localPath, relativePath, status: "notChecked" }
+            : { localPath, relativePath, status: "error", detail: errorMessage(error) }
+        );
+      }
+    }
+    return entries;
+  };
+
+  // Existing exported files are hashed and kept, so an interrupted export resumes where it stopped.
+  const exportAllVersions = async (
+    localPath: string,
+    state: VersionContext,
+    targetFolder: string,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<{ downloaded: number; skipped: number }> => {
+    const sourceFileName = path.basename(localPath);
+    const manifestNames = getManifestFileNames(sourceFileName);
+    const manifest: ExportManifest = { sourceFile: localPath, exportedAt: new Date().toISOString(), versions: [] };
+    const writeManifest = async (): Promise<void> => {
+      manifest.versions.sort((a, b) => a.lastModifiedDateTime.localeCompare(b.lastModifiedDateTime));
+      await fs.promises.writeFile(path.join(targetFolder, manifestNames.json), `${JSON.stringify(manifest, null, 2)}\n`);
+      await fs.promises.writeFile(path.join(targetFolder, manifestNames.csv), toManifestCsv(manifest.versions));
+    };
+
+    let downloaded = 0;
+    let skipped = 0;
+    const oldestFirst = [...state.versions].reverse();
+    for (const version of oldestFirst) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      const fileName = buildExportFileName(sourceFileName, version.id, version.lastModifiedDateTime);
+      const target = path.join(targetFolder, fileName);
+      progress.report({ message: fileName, increment: 100 / oldestFirst.length });
+
+      let bytes: Uint8Array;
+      if (fs.existsSync(target)) {
+        bytes = await fs.promises.readFile(target);
+        skipped++;
+      } else {
+        try {
+          bytes = await withAbortSignal(token, (signal) => client.downloadVersionBytes(localPath, version.id, { signal }));
+        } catch (error) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          throw error;
+        }
+        // Write to a temporary name first so a half-written file is never mistaken for a finished export.
+        const partial = `${target}.partial`;
+        await fs.promises.writeFile(partial, bytes);
+        await fs.promises.rename(partial, target);
+        downloaded++;
+      }
+
+      const entry: ExportedVersion = {
+        versionId: version.id,
+        lastModifiedDateTime: version.lastModifiedDateTime,
+        author: version.lastModifiedBy?.user?.displayName ?? "",
+        size: bytes.byteLength,
+        sha256: sha256Hex(bytes),
+        fileName
+      };
+      manifest.versions.push(entry);
+      await writeManifest();
+    }
+    return { downloaded, skipped };
+  };
+
+  const applyTreeSelection = (state: VersionContext, node?: VersionTreeNode): void => {
+    if (node && state.versions[node.index] && state.selectedIndex !== node.index) {
+      state.selectedIndex = node.index;
+      updateVersionViews();
+    }
+  };
+
+  // Applies chosen hunks of a version into the local document as one editor edit, so it works on unsaved
+  // buffers and the editor's Undo reverts it. Nothing is saved.
+  const restoreChangesFromVersion = async (localPath: string, versionId: string): Promise<void> => {
+    if (contentProvider.hasConverter(localPath)) {
+      throw new Error("Changes can only be restored into plain text files. Use 'Restore Selected Version' for this file.");
+    }
+    const versionText = contentProvider.extractText(localPath, await client.downloadVersionBytes(localPath, versionId));
+    if (versionText === undefined) {
+      throw new Error("This version appears to be binary content. Use 'Restore Selected Version' instead.");
+    }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(localPath));
+    const documentVersion = document.version;
+    const previous = splitLines(versionText);
+    const next = splitLines(document.getText());
+    const hunks = computeHunks(previous, next);
+    if (!hunks.length) {
+      void vscode.window.showInformationMessage("The current file already matches this version.");
+      return;
+    }
+
+    // Hunks touching a selection in either side of the diff are pre-checked.
+    const editor = vscode.window.activeTextEditor;
+    const selection = editor && !editor.selection.isEmpty ? editor.selection : undefined;
+    const selectionOnVersion = editor?.document.uri.scheme === CONTENT_SCHEME;
+    const touchesSelection = (hunk: LineHunk): boolean => {
+      if (!selection) {
+        return false;
+      }
+      const [start, end] = selectionOnVersion ? [hunk.previousStart, hunk.previousEnd] : [hunk.nextStart, hunk.nextEnd];
+      const lastSelected = selection.end.character === 0 && selection.end.line > selection.start.line ? selection.end.line - 1 : selection.end.line;
+      return start === end ? start >= selection.start.line && start <= lastSelected + 1 : start <= lastSelected && end > selection.start.line;
+    };
+
+    const version = client.getCachedContext(localPath)?.versions.find((candidate) => candidate.id === versionId);
+    const versionLabel = version ? new Date(version.lastModifiedDateTime).toLocaleString() : `version ${versionId}`;
+    type HunkPickItem = vscode.QuickPickItem & { hunk: LineHunk };
+    const picked = await vscode.window.showQuickPick<HunkPickItem>(
+      hunks.map((hunk) => ({ ...describeRevertHunk(hunk, previous, next), picked: touchesSelection(hunk), hunk })),
+      {
+        canPickMany: true,
+        matchOnDetail: true,
+        title: `Restore changes from ${path.basename(localPath)} (OneDrive ${versionLabel})`,
+        placeHolder: "Check the changes to bring back into the current file"
+      }
+    );
+    if (!picked?.length) {
+      return;
+    }
+    if (document.version !== documentVersion) {
+      throw new Error("The file changed while changes were being chosen. Run the command again.");
+    }
+
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const edit = new vscode.WorkspaceEdit();
+    for (const { hunk } of picked) {
+      const { start, end, text } = toRevertEdit(hunk, previous, next, eol);
+      edit.replace(document.uri, new vscode.Range(start.line, start.character, end.line, end.character), text);
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error("The editor did not accept the changes.");
+    }
+
+    if (!vscode.window.visibleTextEditors.some((visible) => visible.document === document)) {
+      await vscode.window.showTextDocument(document, { preview: false });
+    }
+    void vscode.window.showInformationMessage(
+      `Restored ${picked.length} change(s) from the OneDrive version of ${versionLabel}. Save the file to keep them, or use Undo to take them back.`
+    );
   };
 
   context.subscriptions.push(
     vscode.commands.registerCommand("onedriveVersions.connectAccount", async () => {
       try {
-        if (client.getAuthMode() === "deviceCode" && !client.hasDeviceCodeClientId()) {
+        if (client.getAuthMode() !== "vscode" && !client.hasDeviceCodeClientId()) {
           const action = await vscode.window.showWarningMessage(
-            "Set onedriveVersions.auth.clientId before connecting with device code.",
+            "Set onedriveVersions.auth.clientId before connecting with device code or browser sign-in.",
             "Open Settings",
             "Open Setup Guide"
           );
@@ -811,7 +2724,113 @@ export function activate(context: vscode.ExtensionContext): void {
         await client.connectAccount();
         void vscode.window.showInformationMessage("OneDrive account connected.");
         await updateActiveContext();
-        updateVersionBadge();
+        updateVersionViews();
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.switchAccount", async () => {
+      const localPath = getActiveFilePath();
+      const root = localPath ? client.findOneDriveRoot(localPath) : undefined;
+
+      try {
+        const defaultHomeId = client.getDefaultAccountHomeId();
+        const accountItems = (await client.listAccounts()).map((account) => ({
+          label: account.username,
+          description: account.homeAccountId === defaultHomeId ? "default" : account.tenantId,
+          detail: root?.account === account.homeAccountId ? `Bound to ${root.localRoot}` : undefined,
+          account: account.homeAccountId as string | undefined
+        }));
+        const picked = await vscode.window.showQuickPick(
+          [...accountItems, { label: "$(add) Sign in with another account...", description: "", detail: undefined, account: undefined }],
+          { title: "OneDrive Accounts", placeHolder: "Choose the Microsoft account to use" }
+        );
+        if (!picked) {
+          return;
+        }
+
+        let account = picked.account;
+        if (!account) {
+          const tenant = await vscode.window.showInputBox({
+            title: "Sign in with another account",
+            prompt: "Tenant ID or domain for the account. Leave empty for the configured tenant, or use 'consumers' for a personal account."
+          });
+          if (tenant === undefined) {
+            return;
+          }
+          account = await client.signInAdditionalAccount(tenant.trim() || undefined);
+        }
+
+        let targetRoot: string | undefined;
+        if (root) {
+          const scope = await vscode.window.showQuickPick(
+            [
+              { label: `Use for ${root.localRoot}`, localRoot: root.localRoot as string | undefined },
+              { label: "Use as default account", localRoot: undefined }
+            ],
+            { title: "OneDrive Accounts", placeHolder: "Where should this account be used?" }
+          );
+          if (!scope) {
+            return;
+          }
+          targetRoot = scope.localRoot;
+        }
+
+        await client.bindAccount(targetRoot, account);
+        void vscode.window.showInformationMessage(
+          targetRoot ? `OneDrive account bound to ${targetRoot}.` : "Default OneDrive account updated."
+        );
+        await updateActiveContext();
+        updateVersionViews();
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.signOut", async () => {
+      try {
+        await client.signOut();
+        await updateActiveContext();
+        updateVersionViews();
+        if (client.getAuthMode() === "vscode") {
+          void vscode.window.showInformationMessage(
+            "OneDrive Versions cleared its cached data. Sign out of the Microsoft account from the VS Code Accounts menu to revoke the VS Code session."
+          );
+          return;
+        }
+        void vscode.window.showInformationMessage("Signed out of OneDrive. The saved token cache was cleared.");
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.explainResolution", async () => {
+      const localPath = getActiveFilePath();
+      if (!localPath) {
+        void vscode.window.showInformationMessage("Open a file from a OneDrive folder first.");
+        return;
+      }
+
+      resolutionChannel.clear();
+      resolutionChannel.show(true);
+      const trace: ResolutionTrace = { log: (message) => resolutionChannel.appendLine(redactSecrets(message)) };
+      trace.log(`OneDrive Versions resolution trace (${new Date().toISOString()})`);
+      trace.log(`File: ${localPath}`);
+      trace.log(`Platform: ${process.platform}, auth mode: ${client.getAuthMode()}`);
+
+      try {
+        // Drop the saved resolution so the trace shows the full strategy chain.
+        await client.forgetResolution(localPath);
+        const loaded = await client.loadVersionsForFile(localPath, { trace });
+        trace.log(`Result: resolved ${loaded.versions.length} version(s) for item ${loaded.itemId} in drive ${loaded.driveId}.`);
+        updateVersionViews();
+      } catch (error) {
+        trace.log(`Result: failed. ${errorMessage(error)}`);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.clearVersionCache", async () => {
+      try {
+        const cleared = await client.clearContentCache();
+        const sizeMb = (cleared.totalBytes / (1024 * 1024)).toFixed(1);
+        void vscode.window.showInformationMessage(`Cleared ${cleared.entries} cached OneDrive version(s) (${sizeMb} MB).`);
       } catch (error) {
         await handleOneDriveError(error);
       }
@@ -828,25 +2847,9 @@ export function activate(context: vscode.ExtensionContext): void {
 
       try {
         const state = client.getCachedContext(localPath) ?? (await ensureVersions(localPath));
-        const quickPickItems = state.versions.map((version, index) => {
-          const modifiedBy = version.lastModifiedBy?.user?.displayName ?? "unknown";
-          const dateString = new Date(version.lastModifiedDateTime).toLocaleString();
-          const sizeString = typeof version.size === "number" ? `${Math.round(version.size / 1024)} KB` : "size n/a";
-          return {
-            label: `${state.selectedIndex === index ? "$(check) " : ""}${dateString}`,
-            description: `${modifiedBy} | ${sizeString}`,
-            detail: `Version ID: ${version.id}`,
-            index
-          };
-        });
-
-        const selected = await vscode.window.showQuickPick(quickPickItems, {
-          title: "OneDrive Versions",
-          placeHolder: "Choose a version to preview"
-        });
-
-        if (selected) {
-          await setSelectedIndex(localPath, selected.index);
+        const selectedIndex = await pickVersionIndex(localPath, state, "Choose a version to preview");
+        if (selectedIndex !== undefined) {
+          await setSelectedIndex(localPath, selectedIndex);
         }
       } catch (error) {
         await handleOneDriveError(error);
@@ -876,13 +2879,253 @@ export function activate(context: vscode.ExtensionContext): void {
         await handleOneDriveError(error);
       }
     }),
-    vscode.commands.registerCommand("onedriveVersions.saveAsVersion", async () => {
+    vscode.commands.registerCommand("onedriveVersions.previewVersion", async (node?: VersionTreeNode) => {
+      const localPath = node?.localPath ?? getActiveFilePath();
+      if (!localPath) {
+        return;
+      }
+      try {
+        const state = client.getCachedContext(localPath) ?? (await ensureVersions(localPath));
+        await setSelectedIndex(localPath, node?.index ?? state.selectedIndex);
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.compareVersions", async (node?: VersionTreeNode) => {
+      const localPath = node?.localPath ?? getActiveFilePath();
+      if (!localPath) {
+        return;
+      }
+      try {
+        const state = client.getCachedContext(localPath) ?? (await ensureVersions(localPath));
+        if (state.versions.length < 2 && !state.loadingMore) {
+          void vscode.window.showInformationMessage("This file has only one OneDrive version.");
+          return;
+        }
+
+        const firstIndex = node?.index ?? (await pickVersionIndex(localPath, state, "Select the first version to compare"));
+        if (firstIndex === undefined) {
+          return;
+        }
+        const firstLabel = new Date(state.versions[firstIndex]?.lastModifiedDateTime ?? "").toLocaleString();
+        const secondIndex = await pickVersionIndex(localPath, state, `Select a version to compare with ${firstLabel}`);
+        if (secondIndex === undefined) {
+          return;
+        }
+        if (secondIndex === firstIndex) {
+          void vscode.window.showInformationMessage("Select two different versions to compare.");
+          return;
+        }
+
+        await openVersionComparison(localPath, state, firstIndex, secondIndex);
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.compareWithPrevious", async (node?: VersionTreeNode) => {
+      const localPath = node?.localPath ?? getActiveFilePath();
+      if (!localPath) {
+        return;
+      }
+      try {
+        let state = client.getCachedContext(localPath) ?? (await ensureVersions(localPath));
+        const index = node?.index ?? state.selectedIndex;
+        if (index + 1 >= state.versions.length && state.loadingMore) {
+          state = await client.loadAllVersionsForFile(localPath);
+        }
+        if (!state.versions[index + 1]) {
+          void vscode.window.showInformationMessage("This is the oldest OneDrive version; there is nothing earlier to compare with.");
+          return;
+        }
+
+        // Keep the selection on the compared version so Previous/Next Version steps through saves one at a time.
+        state.selectedIndex = index;
+        updateVersionViews();
+        await openVersionComparison(localPath, state, index, index + 1);
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.toggleAnnotations", async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.document.uri.scheme !== "file") {
+        return;
+      }
+      if (annotations.isAnnotated(editor.document)) {
+        annotations.clear(editor.document);
+        return;
+      }
+      try {
+        await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "OneDrive: Annotating lines by version", cancellable: true },
+          (progress, token) => annotations.annotate(editor, progress, token)
+        );
+        updateVersionViews();
+      } catch (error) {
+        if (isOneDriveErrorKind(error, "cancelled")) {
+          return;
+        }
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.searchHistory", async () => {
+      const localPath = getActiveFilePath();
+      if (!localPath) {
+        return;
+      }
+      const fileName = path.basename(localPath);
+      const input = await vscode.window.showInputBox({
+        title: `Search OneDrive history of ${fileName}`,
+        prompt: "Plain text matches case-insensitively. Use /pattern/flags for a regular expression.",
+        validateInput: (value) => {
+          if (!value) {
+            return "Enter text to search for.";
+          }
+          try {
+            parseSearchQuery(value);
+            return undefined;
+          } catch (error) {
+            return `Invalid regular expression: ${errorMessage(error)}`;
+          }
+        }
+      });
+      if (!input) {
+        return;
+      }
+      const pattern = parseSearchQuery(input);
+
+      try {
+        const { state, matches, skipped } = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `OneDrive: Searching history of ${fileName}`, cancellable: true },
+          (progress, token) =>
+            withAbortSignal(token, async (signal) => {
+              const loaded = await client.loadAllVersionsForFile(localPath, { signal });
+              let searched = 0;
+              // A version that fails to download is skipped so one bad version does not discard the others.
+              const failed: GraphVersion[] = [];
+              const perVersion = await mapWithConcurrency(loaded.versions, MAX_PARALLEL_VERSION_DOWNLOADS, async (version) => {
+                let bytes: Uint8Array;
+                try {
+                  bytes = await client.downloadVersionBytes(localPath, version.id, { signal });
+                } catch (error) {
+                  if (token.isCancellationRequested) {
+                    throw error;
+                  }
+                  failed.push(version);
+                  return [];
+                } finally {
+                  progress.report({ message: `Searched ${++searched} of ${loaded.versions.length} versions`, increment: 100 / loaded.versions.length });
+                }
+                let text: string | undefined;
+                try {
+                  text = contentProvider.extractText(localPath, bytes);
+                } catch {
+                  text = undefined;
+                }
+                return text === undefined ? [] : findLineMatches(text, pattern, 1, MAX_SEARCH_MATCHES_PER_VERSION);
+              });
+              return { state: loaded, matches: perVersion, skipped: failed };
+            })
+        );
+
+        if (skipped.length) {
+          const listed = skipped.slice(0, 5).map((version) => `${version.id} (${new Date(version.lastModifiedDateTime).toLocaleString()})`);
+          void vscode.window.showWarningMessage(
+            `OneDrive Versions: ${skipped.length} of ${state.versions.length} versions could not be downloaded and were not searched: ${listed.join(", ")}${skipped.length > 5 ? ", ..." : ""}.`
+          );
+        }
+
+        const range = findPresenceRange(matches.map((found) => found.length));
+        if (!range) {
+          void vscode.window.showInformationMessage(`No searched OneDrive version of ${fileName} contains "${input}".`);
+          return;
+        }
+
+        const describe = (index: number): string =>
+          `${new Date(state.versions[index].lastModifiedDateTime).toLocaleString()} (${state.versions[index].id})`;
+        const presence = [`First: ${describe(range.oldestIndex)}`, `last: ${describe(range.newestIndex)}`];
+        if (range.newestIndex > 0) {
+          presence.push(`gone since ${describe(range.newestIndex - 1)}`);
+        }
+
+        type SearchPickItem = vscode.QuickPickItem & { versionIndex?: number; line?: number };
+        const items: SearchPickItem[] = [];
+        matches.forEach((found, versionIndex) => {
+          if (!found.length) {
+            return;
+          }
+          const version = state.versions[versionIndex];
+          items.push({
+            label: `${new Date(version.lastModifiedDateTime).toLocaleString()} · ${version.lastModifiedBy?.user?.displayName ?? "unknown"} · ${found.length} match(es)`,
+            kind: vscode.QuickPickItemKind.Separator
+          });
+          for (const match of found) {
+            items.push({
+              label: `${match.line + 1}: ${match.text.trim()}`,
+              description: `Version ${version.id}`,
+              detail: [...match.before, ...match.after].map((line) => line.trim()).filter(Boolean).join(" ⏎ "),
+              versionIndex,
+              line: match.line
+            });
+          }
+        });
+
+        const picker = vscode.window.createQuickPick<SearchPickItem>();
+        picker.title = `"${input}" found in ${range.versionCount} of ${state.versions.length} versions${skipped.length ? ` (${skipped.length} not searched)` : ""}`;
+        picker.placeholder = `${presence.join(", ")}. Select a match to open that version's diff.`;
+        picker.items = items;
+        picker.matchOnDescription = true;
+        picker.matchOnDetail = true;
+        // Stay open so several matches can be inspected in turn.
+        picker.ignoreFocusOut = true;
+        picker.onDidAccept(async () => {
+          const item = picker.selectedItems[0];
+          if (item?.versionIndex === undefined || item.line === undefined) {
+            return;
+          }
+          try {
+            state.selectedIndex = item.versionIndex;
+            updateVersionViews();
+            const selection = new vscode.Range(item.line, 0, item.line, 0);
+            if (state.versions[item.versionIndex + 1]) {
+              await openVersionComparison(localPath, state, item.versionIndex + 1, item.versionIndex, selection);
+            } else {
+              const document = await vscode.workspace.openTextDocument(toVersionUri(localPath, state.versions[item.versionIndex].id));
+              await vscode.window.showTextDocument(document, { preview: true, selection });
+            }
+          } catch (error) {
+            await handleOneDriveError(error);
+          }
+        });
+        picker.onDidHide(() => picker.dispose());
+        picker.show();
+      } catch (error) {
+        if (isOneDriveErrorKind(error, "cancelled")) {
+          return;
+        }
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.refreshVersions", async () => {
       const localPath = getActiveFilePath();
       if (!localPath) {
         return;
       }
+      try {
+        client.clearCachedContext(localPath);
+        await ensureVersions(localPath, { refresh: true });
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.saveAsVersion", async (node?: VersionTreeNode) => {
+      const localPath = node?.localPath ?? getActiveFilePath();
+      if (!localPath) {
+        return;
+      }
       try {
         const state = client.getCachedContext(localPath) ?? (await ensureVersions(localPath));
+        applyTreeSelection(state, node);
         const selected = state.versions[state.selectedIndex];
         if (!selected) {
           throw new Error("No version selected.");
@@ -903,28 +3146,306 @@ export function activate(context: vscode.ExtensionContext): void {
         await handleOneDriveError(error);
       }
     }),
-    vscode.commands.registerCommand("onedriveVersions.restoreVersion", async () => {
-      const localPath = getActiveFilePath();
+    vscode.commands.registerCommand("onedriveVersions.exportAllVersions", async (node?: VersionTreeNode) => {
+      const localPath = node?.localPath ?? getActiveFilePath();
+      if (!localPath) {
+        return;
+      }
+      try {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectFiles: false,
+          canSelectFolders: true,
+          canSelectMany: false,
+          openLabel: "Export Versions Here",
+          title: `Export all OneDrive versions of ${path.basename(localPath)}`
+        });
+        const targetFolder = picked?.[0]?.fsPath;
+        if (!targetFolder) {
+          return;
+        }
+
+        const result = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `OneDrive: Exporting versions of ${path.basename(localPath)}`, cancellable: true },
+          async (progress, token) => {
+            const state = await withAbortSignal(token, (signal) => client.loadAllVersionsForFile(localPath, { signal }));
+            return { ...(await exportAllVersions(localPath, state, targetFolder, progress, token)), total: state.versions.length, cancelled: token.isCancellationRequested };
+          }
+        );
+
+        const summary = `${result.cancelled ? "Export cancelled" : "Export finished"}: ${result.downloaded} downloaded, ${result.skipped} already present, ${result.total} versions in total.`;
+        const action = await vscode.window.showInformationMessage(summary, "Reveal Folder");
+        if (action === "Reveal Folder") {
+          await vscode.commands.executeCommand("revealFileInOS", vscode.Uri.file(path.join(targetFolder, getManifestFileNames(path.basename(localPath)).json)));
+        }
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.restoreFolderToTime", async (folderUri?: vscode.Uri) => {
+      const folder = await pickOneDriveFolder(folderUri, "Select Folder to Restore");
+      if (!folder) {
+        return;
+      }
+
+      const pointInTime = await promptPointInTime(
+        `Restore ${path.basename(folder)} to a point in time`,
+        "Restore every file to its latest version at or before this time."
+      );
+      if (!pointInTime) {
+        return;
+      }
+
+      try {
+        const files = await listFilesRecursively(folder);
+        if (files.length > MAX_FOLDER_RESTORE_FILES) {
+          throw new Error(`This folder contains more than ${MAX_FOLDER_RESTORE_FILES} files. Choose a smaller folder.`);
+        }
+
+        const plan = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "OneDrive: Finding versions", cancellable: true },
+          (progress, token) => planFolderRestore(folder, files, pointInTime, progress, token)
+        );
+        // A cancelled search restores nothing, but still reports what it found so far.
+        if (plan.some((entry) => entry.status === "notChecked")) {
+          await showFolderRestoreReport(folder, pointInTime, plan, new Map());
+          return;
+        }
+
+        type RestorePickItem = vscode.QuickPickItem & { entry: PlannedFolderRestore };
+        const candidates: RestorePickItem[] = plan
+          .filter(isPlannedFolderRestore)
+          .map((entry) => ({
+            label: entry.relativePath,
+            description: `→ ${new Date(entry.version.lastModifiedDateTime).toLocaleString()} by ${entry.version.lastModifiedBy?.user?.displayName ?? "unknown"}`,
+            detail: `Version ID: ${entry.version.id} | ${formatVersionSize(entry.version.size)}`,
+            picked: true,
+            entry
+          }));
+        if (!candidates.length) {
+          await showFolderRestoreReport(folder, pointInTime, plan, new Map());
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(candidates, {
+          canPickMany: true,
+          title: `Files that would change (${candidates.length} of ${plan.length})`,
+          placeHolder: "Uncheck files to keep their current version, then press Enter to continue"
+        });
+        if (!selected?.length) {
+          return;
+        }
+
+        // Unsynced local edits are not in any OneDrive version, so the backups are their only copy.
+        const unsynced = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "OneDrive: Checking for unsynced local edits", cancellable: true },
+          async (_progress, token) => {
+            const changed: string[] = [];
+            for (const { entry } of selected) {
+              if (token.isCancellationRequested) {
+                break;
+              }
+              const status = await withAbortSignal(token, (signal) =>
+                client.getSyncStatus(entry.localPath, { interactive: false, useLoadedHashes: true, matchVersions: false, signal })
+              ).catch(() => undefined);
+              if (status?.state === "localChanges") {
+                changed.push(entry.relativePath);
+              }
+            }
+            return changed;
+          }
+        );
+        const unsyncedDetail = unsynced.length
+          ? ` ${unsynced.length} file(s) have local changes that are not in OneDrive yet and will only be kept in the restore backup: ${unsynced.slice(0, 5).join(", ")}${
+              unsynced.length > 5 ? ", ..." : ""
+            }.`
+          : "";
+
+        const restoreMode = getRestoreMode();
+        const confirm = await vscode.window.showWarningMessage(
+          `Restore ${selected.length} file(s) in ${path.basename(folder)} to their versions as of ${pointInTime.toLocaleString()}?`,
+          {
+            modal: true,
+            detail: `${
+              restoreMode === "server" ? "Versions are restored in the cloud and synced down." : "Local files are overwritten and synced up as new versions."
+            } A backup of each local file is kept; use "Undo Last Restore" to revert the whole folder restore.${unsyncedDetail}`
+          },
+          "Restore"
+        );
+        if (confirm !== "Restore") {
+          return;
+        }
+
+        const results = new Map<FolderRestoreEntry, string>();
+        const batchId = randomUUID();
+        await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "OneDrive: Restoring folder", cancellable: true },
+          async (progress, token) => {
+            let mode = restoreMode;
+            for (const { entry } of selected) {
+              if (token.isCancellationRequested) {
+                results.set(entry, "Cancelled");
+                continue;
+              }
+              progress.report({ message: entry.relativePath, increment: 100 / selected.length });
+              const openDocument = vscode.workspace.textDocuments.find(
+                (document) => document.uri.scheme === "file" && samePath(document.uri.fsPath, entry.localPath)
+              );
+              if (openDocument?.isDirty) {
+                results.set(entry, "Skipped: unsaved edits in the editor");
+                continue;
+              }
+              try {
+                const outcome = await restoreFileToVersion(entry.localPath, entry.version, mode, batchId);
+                if (outcome === "localAfterWriteRefused") {
+                  // Ask for write consent once; the rest of the batch writes local files.
+                  mode = "local";
+                }
+                results.set(entry, outcome === "server" ? "Restored in the cloud" : "Restored locally");
+                client.clearCachedContext(entry.localPath);
+              } catch (error) {
+                results.set(entry, `Failed: ${errorMessage(error)}`);
+              }
+            }
+          }
+        );
+
+        await showFolderRestoreReport(folder, pointInTime, plan, results);
+        updateVersionViews();
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.recoverDeletedFiles", async (folderUri?: vscode.Uri) => {
+      const folder = await pickOneDriveFolder(folderUri, "Select Folder");
+      if (!folder) {
+        return;
+      }
+      try {
+        const listing = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `OneDrive: Looking for deleted files in ${path.basename(folder)}`, cancellable: true },
+          (_progress, token) => withAbortSignal(token, (signal) => client.listDeletedFiles(folder, { signal }))
+        );
+        const limits = [
+          listing.truncated ? `the drive is too large to scan completely (stopped after ${MAX_DRIVE_DELTA_PAGES} pages)` : undefined,
+          listing.unplaced ? `${listing.unplaced} deleted file(s) on the drive could not be matched to a folder` : undefined
+        ].filter((limit): limit is string => limit !== undefined);
+        const limitNotice = limits.length ? ` Results may be incomplete: ${limits.join("; ")}. Check the OneDrive recycle bin on the web for older deletions.` : "";
+        const deletedFiles = listing.files;
+        if (!deletedFiles.length) {
+          void vscode.window.showInformationMessage(`No recently deleted files were found in ${path.basename(folder)}.${limitNotice}`);
+          return;
+        }
+        if (limitNotice) {
+          void vscode.window.showWarningMessage(`OneDrive Versions:${limitNotice}`);
+        }
+
+        type DeletedPickItem = vscode.QuickPickItem & { deleted: DeletedDriveItem };
+        const picked = await vscode.window.showQuickPick<DeletedPickItem>(
+          deletedFiles.map((deleted) => ({
+            label: `$(trash) ${deleted.name}`,
+            description: deleted.lastModifiedDateTime ? `last changed ${new Date(deleted.lastModifiedDateTime).toLocaleString()}` : undefined,
+            detail: `${formatVersionSize(deleted.size)} | Item ID: ${deleted.itemId}`,
+            deleted
+          })),
+          {
+            title: `Deleted files in ${path.basename(folder)}${limits.length ? " (incomplete)" : ""}`,
+            placeHolder: "Select a file to restore it or save one of its versions"
+          }
+        );
+        if (!picked) {
+          return;
+        }
+        await recoverDeletedFile(picked.deleted);
+      } catch (error) {
+        if (isOneDriveErrorKind(error, "cancelled")) {
+          return;
+        }
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.openSnapshot", async (folderUri?: vscode.Uri) => {
+      const folder = await pickOneDriveFolder(folderUri, "Select Folder to Browse");
+      if (!folder) {
+        return;
+      }
+      const pointInTime = await promptPointInTime(
+        `Browse ${path.basename(folder)} as of a point in time`,
+        "Each file is shown at its latest version at or before this time."
+      );
+      if (!pointInTime) {
+        return;
+      }
+
+      const snapshotUri = OneDriveSnapshotFileSystemProvider.toUri(folder, pointInTime);
+      const name = `${path.basename(folder)} @ ${pointInTime.toLocaleString()}`;
+      const action = await vscode.window.showInformationMessage(
+        `Open a read-only snapshot of ${path.basename(folder)} as of ${pointInTime.toLocaleString()}?`,
+        "Add to Workspace",
+        "Open in New Window"
+      );
+      if (action === "Add to Workspace") {
+        const index = vscode.workspace.workspaceFolders?.length ?? 0;
+        vscode.workspace.updateWorkspaceFolders(index, 0, { uri: snapshotUri, name });
+      } else if (action === "Open in New Window") {
+        await vscode.commands.executeCommand("vscode.openFolder", snapshotUri, { forceNewWindow: true });
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.compareSnapshotWithCurrent", async (uri?: vscode.Uri) => {
+      const snapshotUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!snapshotUri || snapshotUri.scheme !== SNAPSHOT_SCHEME) {
+        return;
+      }
+      const localPath = OneDriveSnapshotFileSystemProvider.toLocalPath(snapshotUri);
+      const pointInTime = parseSnapshotStamp(snapshotUri.authority);
+      const title = `${path.basename(localPath)} (OneDrive ${pointInTime?.toLocaleString() ?? snapshotUri.authority}) ↔ Current`;
+      await vscode.commands.executeCommand("vscode.diff", snapshotUri, vscode.Uri.file(localPath), title, { preview: true });
+    }),
+    vscode.commands.registerCommand("onedriveVersions.restoreVersion", async (node?: VersionTreeNode) => {
+      const localPath = node?.localPath ?? getActiveFilePath();
       if (!localPath) {
         return;
       }
 
       const activeDoc = vscode.window.activeTextEditor?.document;
       if (activeDoc?.isDirty && activeDoc.uri.scheme === "file" && samePath(activeDoc.uri.fsPath, localPath)) {
-        void vscode.window.showWarningMessage("Save or discard local edits before restoring a OneDrive version.");
+        const action = await vscode.window.showWarningMessage(
+          "Save or discard local edits before restoring a OneDrive version, or restore individual changes into the unsaved file instead.",
+          "Restore Changes..."
+        );
+        if (action) {
+          await vscode.commands.executeCommand("onedriveVersions.restoreChanges", node);
+        }
         return;
       }
 
       try {
         const state = client.getCachedContext(localPath) ?? (await ensureVersions(localPath));
+        applyTreeSelection(state, node);
         const selected = state.versions[state.selectedIndex];
         if (!selected) {
           throw new Error("No version selected.");
         }
 
+        const restoreMode = getRestoreMode();
+        if (restoreMode === "server" && state.selectedIndex === 0) {
+          void vscode.window.showInformationMessage("The selected version is already the current OneDrive version.");
+          return;
+        }
+
+        // Unsynced local edits are not in any OneDrive version, so the backup is their only copy.
+        // Only the loaded hashes are compared, so asking never downloads versions.
+        const syncStatus = await client
+          .getSyncStatus(localPath, { interactive: false, useLoadedHashes: true, matchVersions: false })
+          .catch(() => undefined);
         const confirm = await vscode.window.showWarningMessage(
           `Restore this file to the version from ${new Date(selected.lastModifiedDateTime).toLocaleString()}?`,
-          { modal: true },
+          {
+            modal: true,
+            detail:
+              syncStatus?.state === "localChanges"
+                ? "The local file has changes that are not in OneDrive yet. They will only be kept in the restore backup; use \"Undo Last Restore\" to get them back."
+                : "A backup of the local file is kept; use \"Undo Last Restore\" to revert."
+          },
           "Restore"
         );
 
@@ -932,13 +3453,103 @@ export function activate(context: vscode.ExtensionContext): void {
           return;
         }
 
-        const bytes = await client.downloadVersionBytes(localPath, selected.id);
-        await vscode.workspace.fs.writeFile(vscode.Uri.file(localPath), bytes);
+        const outcome = await restoreFileToVersion(localPath, selected, restoreMode);
+        syncStatuses.delete(path.resolve(localPath));
+        if (outcome === "server") {
+          void vscode.window.showInformationMessage("OneDrive version restored in the cloud. OneDrive sync will download it to the local file.");
+          updateVersionViews();
+          timelineProvider.refresh(localPath);
+          return;
+        }
+        if (outcome === "localAfterWriteRefused") {
+          void vscode.window.showWarningMessage("OneDrive write permission was not granted. The version was restored by writing the local file instead.");
+        }
 
         const reopened = await vscode.workspace.openTextDocument(vscode.Uri.file(localPath));
         await vscode.window.showTextDocument(reopened, { preview: false });
         void vscode.window.showInformationMessage("OneDrive version restored locally. OneDrive sync will upload it as the current version.");
-        updateVersionBadge();
+        updateVersionViews();
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.restoreChanges", async (node?: VersionTreeNode) => {
+      try {
+        let source = node ? undefined : getActiveVersionSource();
+        if (!source) {
+          const localPath = node?.localPath ?? getActiveFilePath();
+          if (!localPath) {
+            return;
+          }
+          const state = client.getCachedContext(localPath) ?? (await ensureVersions(localPath));
+          applyTreeSelection(state, node);
+          const selected = state.versions[state.selectedIndex];
+          if (!selected) {
+            throw new Error("No version selected.");
+          }
+          source = { localPath, versionId: selected.id };
+        }
+        await restoreChangesFromVersion(source.localPath, source.versionId);
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.undoLastRestore", async () => {
+      try {
+        const entries = await restoreJournal.getLastRestore();
+        if (!entries.length) {
+          void vscode.window.showInformationMessage("There is no OneDrive restore to undo.");
+          return;
+        }
+        await confirmAndRevert(entries);
+      } catch (error) {
+        await handleOneDriveError(error);
+      }
+    }),
+    vscode.commands.registerCommand("onedriveVersions.showRestoreJournal", async () => {
+      try {
+        const entries = await restoreJournal.list();
+        if (!entries.length) {
+          void vscode.window.showInformationMessage("No OneDrive restores have been recorded yet.");
+          return;
+        }
+
+        type JournalPickItem = vscode.QuickPickItem & { entry: RestoreJournalEntry };
+        const revertButton: vscode.QuickInputButton = {
+          iconPath: new vscode.ThemeIcon("discard"),
+          tooltip: "Revert to the file as it was before this restore"
+        };
+        const quickPick = vscode.window.createQuickPick<JournalPickItem>();
+        quickPick.title = "OneDrive Restore Journal";
+        quickPick.placeholder = "Select a restore to revert it";
+        quickPick.matchOnDetail = true;
+        quickPick.items = entries.map((entry) => ({
+          label: `${entry.revertedAt ? "$(check)" : "$(history)"} ${path.basename(entry.localPath)}`,
+          description: `restored to ${new Date(entry.versionDate).toLocaleString()} (v${entry.versionId})${
+            entry.revertedAt ? ` · reverted ${new Date(entry.revertedAt).toLocaleString()}` : ""
+          }`,
+          detail: `${new Date(entry.restoredAt).toLocaleString()} · ${entry.mode === "server" ? "in the cloud" : "locally"}${
+            entry.batchId ? " · folder restore" : ""
+          } · backup ${formatVersionSize(entry.backupSize)} · ${entry.localPath}`,
+          buttons: entry.revertedAt ? [] : [revertButton],
+          entry
+        }));
+
+        const picked = await new Promise<RestoreJournalEntry | undefined>((resolve) => {
+          quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]?.entry));
+          quickPick.onDidTriggerItemButton((event) => resolve(event.item.entry));
+          quickPick.onDidHide(() => resolve(undefined));
+          quickPick.show();
+        });
+        quickPick.dispose();
+        if (!picked) {
+          return;
+        }
+        if (picked.revertedAt) {
+          void vscode.window.showInformationMessage(`${path.basename(picked.localPath)} was already reverted from this restore.`);
+          return;
+        }
+        await confirmAndRevert([picked]);
       } catch (error) {
         await handleOneDriveError(error);
       }
@@ -946,32 +3557,299 @@ export function activate(context: vscode.ExtensionContext): void {
   );
 
   context.subscriptions.push(
+    client.onDidChangeVersions((changedPath) => {
+      const activePath = getActiveFilePath();
+      if (activePath && samePath(activePath, changedPath)) {
+        updateVersionViews();
+      }
+      timelineProvider.refresh(changedPath);
+    }),
+    versionTree.onDidChangeSelection((event) => {
+      const node = event.selection[0];
+      const state = node ? client.getCachedContext(node.localPath) : undefined;
+      if (state) {
+        applyTreeSelection(state, node);
+      }
+    }),
+    versionTree.onDidChangeVisibility((event) => {
+      if (event.visible) {
+        updateVersionTree();
+      }
+    }),
     vscode.window.onDidChangeActiveTextEditor(() => {
       void updateActiveContext();
-      updateVersionBadge();
+      updateVersionViews();
     }),
     vscode.workspace.onDidCloseTextDocument((document) => {
       if (document.uri.scheme === "file") {
         client.clearCachedContext(document.uri.fsPath);
       }
+      annotations.clear(document);
+      syncStatuses.delete(path.resolve(document.uri.fsPath));
+    }),
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      if (document.uri.scheme === "file" && client.getCachedContext(document.uri.fsPath)) {
+        // The saved content was just written locally, so there is no older version to look for.
+        refreshSyncStatus(document.uri.fsPath, { matchVersions: false });
+      }
+    }),
+    vscode.window.onDidChangeVisibleTextEditors(() => annotations.applyToVisibleEditors()),
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      // Line attributions are positional, so any edit invalidates them.
+      if (event.contentChanges.length && annotations.isAnnotated(event.document)) {
+        annotations.clear(event.document);
+      }
     }),
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration("onedriveVersions")) {
         void updateActiveContext();
-        updateVersionBadge();
+        updateVersionViews();
       }
     })
   );
 
   void maybeShowFirstRunPrompt();
   void updateActiveContext();
-  updateVersionBadge();
+  updateVersionViews();
 }
 
 export function deactivate(): void {
   // no-op
 }
 
+async function promptPointInTime(title: string, prompt: string): Promise<Date | undefined> {
+  const input = await vscode.window.showInputBox({
+    title,
+    prompt,
+    placeHolder: "2026-03-01 17:30, 2026-03-01 (end of day), 3 hours ago, or an ISO timestamp",
+    validateInput: (value) => {
+      const parsed = parsePointInTime(value);
+      if (!parsed) {
+        return "Enter a date such as 2026-03-01 17:30, a relative time such as 2 days ago, or an ISO timestamp.";
+      }
+      return parsed.getTime() > Date.now() ? "Choose a time in the past." : undefined;
+    }
+  });
+  return input ? parsePointInTime(input) : undefined;
+}
+
+async function listFilesRecursively(folder: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.promises.readdir(folder, { withFileTypes: true })) {
+    const fullPath = path.join(folder, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFilesRecursively(fullPath)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+async function showFolderRestoreReport(
+  folder: string,
+  pointInTime: Date,
+  plan: readonly FolderRestoreEntry[],
+  results: ReadonlyMap<FolderRestoreEntry, string>
+): Promise<void> {
+  const restored = [...results.values()].filter((result) => result.startsWith("Restored")).length;
+  const failed = [...results.values()].filter((result) => result.startsWith("Failed")).length;
+  const unchanged = plan.filter((entry) => entry.status === "unchanged").length;
+  const notChecked = plan.filter((entry) => entry.status === "notChecked").length;
+  const lines = [
+    "# OneDrive Folder Restore",
+    "",
+    `- Folder: \`${folder}\``,
+    `- Point in time: ${pointInTime.toLocaleString()}`,
+    `- Restored: ${restored}, failed: ${failed}, already at that version: ${unchanged}`,
+    ...(notChecked ? [`- Not checked: ${notChecked} (finding versions was cancelled)`] : []),
+    "",
+    "| File | Result | Version |",
+    "| --- | --- | --- |"
+  ];
+  for (const entry of plan) {
+    let result = results.get(entry);
+    if (!result) {
+      switch (entry.status) {
+        case "restore":
+          result = "Not selected";
+          break;
+        case "unchanged":
+          result = "Unchanged";
+          break;
+        case "createdLater":
+          result = `Skipped: ${entry.detail}`;
+          break;
+        case "notChecked":
+          result = "Not checked";
+          break;
+        default:
+          result = `Skipped: ${entry.detail ?? "unknown error"}`;
+      }
+    }
+    const version = entry.version ? `${entry.version.id} (${new Date(entry.version.lastModifiedDateTime).toLocaleString()})` : "";
+    lines.push(`| ${entry.relativePath.replace(/\|/g, "\\|")} | ${result.replace(/\|/g, "\\|")} | ${version} |`);
+  }
+
+  const action = await vscode.window.showInformationMessage(
+    notChecked
+      ? `Folder restore cancelled while finding versions: nothing was restored, ${notChecked} of ${plan.length} file(s) were not checked.`
+      : `Folder restore finished: ${restored} restored, ${failed} failed, ${unchanged} already at that version.`,
+    "Open Report"
+  );
+  if (action === "Open Report") {
+    const document = await vscode.workspace.openTextDocument({ language: "markdown", content: lines.join("\n") });
+    await vscode.window.showTextDocument(document, { preview: false });
+  }
+}
+
+function renderBinaryComparisonHtml(fileName: string, left: BinaryComparisonSide, right: BinaryComparisonSide, cspSource: string): string {
+  const nonce = randomBytes(16).toString("base64");
+  const comparison = compareBytes(left.bytes, right.bytes);
+  const mimeType = getImageMimeType(fileName);
+  const showImages = Boolean(mimeType) && left.bytes.length + right.bytes.length <= MAX_INLINE_IMAGE_BYTES;
+
+  const summaryRow = (label: string, leftValue: string, rightValue: string): string =>
+    `<tr><th>${label}</th><td>${escapeHtml(leftValue)}</td><td>${escapeHtml(rightValue)}</td></tr>`;
+  const summary = [
+    `<tr><th></th><th>${escapeHtml(left.label)}</th><th>${escapeHtml(right.label)}</th></tr>`,
+    summaryRow("Size", `${comparison.leftSize.toLocaleString()} bytes`, `${comparison.rightSize.toLocaleString()} bytes`),
+    summaryRow("SHA-256", comparison.leftSha256, comparison.rightSha256)
+  ].join("");
+  const verdict = comparison.identical
+    ? "The contents are identical."
+    : `Contents differ starting at byte offset ${comparison.firstDifference?.toLocaleString()} (0x${comparison.firstDifference?.toString(16)}).`;
+
+  let body: string;
+  if (showImages && mimeType) {
+    const source = (bytes: Uint8Array): string => `data:${mimeType};base64,${Buffer.from(bytes).toString("base64")}`;
+    body = `
+      <div class="modes">
+        <button data-mode="side">Side by side</button>
+        <button data-mode="swipe">Swipe</button>
+        <button data-mode="onion">Onion skin</button>
+        <input id="slider" type="range" min="0" max="100" value="50" aria-label="Swipe position or overlay opacity">
+      </div>
+      <div id="stage" class="stage" data-mode="side">
+        <figure><img src="${source(left.bytes)}" alt=""><figcaption>${escapeHtml(left.label)}</figcaption></figure>
+        <figure id="overlay"><img src="${source(right.bytes)}" alt=""><figcaption>${escapeHtml(right.label)}</figcaption></figure>
+      </div>`;
+  } else {
+    const hexCells = (values: Array<number | undefined>, others: Array<number | undefined>): string =>
+      values
+        .map((value, index) => {
+          const text = value === undefined ? "  " : value.toString(16).padStart(2, "0");
+          return value !== others[index] ? `<span class="changed">${text}</span>` : text;
+        })
+        .join(" ");
+    const rows = buildHexRows(left.bytes, right.bytes, comparison.firstDifference ?? 0, HEX_VIEW_ROWS)
+      .map((row) => `<tr><td class="offset">${row.offset.toString(16).padStart(8, "0")}</td><td>${hexCells(row.left, row.right)}</td><td>${hexCells(row.right, row.left)}</td></tr>`)
+      .join("");
+    const note = mimeType ? "<p>Images are too large to display inline; showing bytes instead.</p>" : "";
+    body = `${note}<table class="hex"><tr><th>Offset</th><th>${escapeHtml(left.label)}</th><th>${escapeHtml(right.label)}</th></tr>${rows}</table>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data: ${cspSource}; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <style nonce="${nonce}">
+    body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+    table { border-collapse: collapse; margin-bottom: 1em; }
+    th, td { text-align: left; padding: 2px 12px 2px 0; vertical-align: top; }
+    .summary td { font-family: var(--vscode-editor-font-family); word-break: break-all; }
+    .modes { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+    .stage { position: relative; }
+    .stage[data-mode="side"] { display: flex; gap: 16px; }
+    .stage[data-mode="side"] figure { flex: 1; }
+    .stage:not([data-mode="side"]) { display: grid; }
+    .stage:not([data-mode="side"]) figure { grid-area: 1 / 1; }
+    .stage:not([data-mode="side"]) figcaption { display: none; }
+    figure { margin: 0; }
+    img { max-width: 100%; }
+    .hex td { font-family: var(--vscode-editor-font-family); white-space: pre; }
+    .offset { color: var(--vscode-descriptionForeground); }
+    .changed { background: var(--vscode-diffEditor-removedTextBackground); }
+  </style>
+</head>
+<body>
+  <h3>${escapeHtml(fileName)}</h3>
+  <table class="summary">${summary}</table>
+  <p>${escapeHtml(verdict)}</p>
+  ${body}
+  <script nonce="${nonce}">
+    const stage = document.getElementById("stage");
+    const slider = document.getElementById("slider");
+    const overlay = document.getElementById("overlay");
+    const apply = () => {
+      const mode = stage.dataset.mode;
+      overlay.style.clipPath = mode === "swipe" ? "inset(0 0 0 " + slider.value + "%)" : "none";
+      overlay.style.opacity = mode === "onion" ? String(slider.value / 100) : "1";
+      slider.hidden = mode === "side";
+    };
+    if (stage) {
+      document.querySelectorAll("[data-mode]").forEach((button) => {
+        button.addEventListener("click", () => {
+          stage.dataset.mode = button.dataset.mode;
+          apply();
+        });
+      });
+      slider.addEventListener("input", apply);
+      apply();
+    }
+  </script>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function toVersionUri(localPath: string, versionId: string): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: CONTENT_SCHEME,
+    path: `/${path.basename(localPath)}`,
+    query: `local=${encodeURIComponent(localPath)}`,
+    fragment: `version=${encodeURIComponent(versionId)}`
+  });
+}
+
+function parseVersionUri(uri: vscode.Uri): { localPath: string; versionId: string } | undefined {
+  const localPath = decodeURIComponent(uri.query.replace(/^local=/, ""));
+  const versionId = decodeURIComponent(uri.fragment.replace(/^version=/, ""));
+  return localPath && versionId ? { localPath, versionId } : undefined;
+}
+
+// The OneDrive version on the original side of the active diff (or the active version document).
+function getActiveVersionSource(): { localPath: string; versionId: string } | undefined {
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  const uri = input instanceof vscode.TabInputTextDiff ? input.original : vscode.window.activeTextEditor?.document.uri;
+  if (uri?.scheme !== CONTENT_SCHEME) {
+    return undefined;
+  }
+  const source = parseVersionUri(uri);
+  return source?.versionId === LOCAL_FILE_VERSION_ID ? undefined : source;
+}
+
+function describeRevertHunk(hunk: LineHunk, previous: readonly string[], next: readonly string[]): vscode.QuickPickItem {
+  const restoredCount = hunk.previousEnd - hunk.previousStart;
+  const currentCount = hunk.nextEnd - hunk.nextStart;
+  const label = !currentCount
+    ? `$(add) Bring back ${restoredCount} deleted line(s)`
+    : !restoredCount
+      ? `$(remove) Remove ${currentCount} line(s) added since this version`
+      : `$(replace) Replace ${currentCount} line(s) with ${restoredCount} from this version`;
+  const description = currentCount
+    ? `current lines ${hunk.nextStart + 1}–${hunk.nextEnd}`
+    : hunk.nextStart < next.length
+      ? `before current line ${hunk.nextStart + 1}`
+      : "at end of file";
+  const sample = restoredCount ? previous[hunk.previousStart] : next[hunk.nextStart];
+  return { label, description, detail: sample.trim().slice(0, 120) || "(blank line)" };
+}
+
 function getActiveFilePath(): string | undefined {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
@@ -981,6 +3859,9 @@ function getActiveFilePath(): string | undefined {
   if (uri.scheme === "file") {
     return uri.fsPath;
   }
+  if (uri.scheme === SNAPSHOT_SCHEME) {
+    return OneDriveSnapshotFileSystemProvider.toLocalPath(uri);
+  }
   if (uri.scheme === CONTENT_SCHEME) {
     const query = uri.query ?? "";
     const match = query.match(/(?:^|&)local=([^&]+)/);
@@ -992,6 +3873,56 @@ function getActiveFilePath(): string | undefined {
   return undefined;
 }
 
+function createSecretStorageCachePlugin(secrets: vscode.SecretStorage, key: string): ICachePlugin {
+  return {
+    beforeCacheAccess: async (cacheContext) => {
+      const serialized = await secrets.get(key);
+      if (serialized) {
+        cacheContext.tokenCache.deserialize(serialized);
+      }
+    },
+    afterCacheAccess: async (cacheContext) => {
+      if (cacheContext.cacheHasChanged) {
+        await secrets.store(key, cacheContext.tokenCache.serialize());
+      }
+    }
+  };
+}
+
+// Signed-out, offline and timed-out snapshot reads show as unavailable instead of prompting or failing oddly.
+function toSnapshotFileSystemError(uri: vscode.Uri, error: unknown): unknown {
+  if (isOfflineError(error)) {
+    return vscode.FileSystemError.Unavailable(uri);
+  }
+  return error;
+}
+
+function isPlannedFolderRestore(entry: FolderRestoreEntry): entry is PlannedFolderRestore {
+  return entry.status === "restore" && entry.version !== undefined;
+}
+
+// Runs `operation` with an AbortSignal that follows `token`, and drops the token subscription once it settles.
+async function withAbortSignal<T>(token: vscode.CancellationToken, operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const subscription = token.onCancellationRequested(() => controller.abort());
+  if (token.isCancellationRequested) {
+    controller.abort();
+  }
+  try {
+    return await operation(controller.signal);
+  } finally {
+    subscription.dispose();
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatVersionSize(size: number | undefined): string {
+  return typeof size === "number" ? `${Math.round(size / 1024)} KB` : "size n/a";
+}
+
 function normalizeLocalRoot(input: string): string {
   return path.resolve(input).replace(/[\\/]+$/, "");
 }
@@ -0,0 +1,102 @@
+export type OneDriveErrorKind =
+  | "authRequired"
+  | "authNotConfigured"
+  | "tenantAuthBlocked"
+  | "writeScopeRefused"
+  | "notInOneDriveRoot"
+  | "itemNotFound"
+  | "timeout"
+  | "cancelled"
+  | "network"
+  | "graph";
+
+export class OneDriveError extends Error {
+  public constructor(message: string, public readonly kind: OneDriveErrorKind) {
+    super(message);
+    this.name = "OneDriveError";
+  }
+}
+
+export interface GraphErrorDetails {
+  status: number;
+  code?: string;
+  graphMessage?: string;
+  requestId?: string;
+  date?: string;
+  url?: string;
+  contentRequest?: boolean;
+}
+
+interface GraphErrorPayload {
+  error?: {
+    code?: string;
+    message?: string;
+    innerError?: {
+      "request-id"?: string;
+      "client-request-id"?: string;
+      date?: string;
+    };
+  };
+}
+
+export class GraphError extends OneDriveError {
+  public readonly status: number;
+  public readonly code?: string;
+  public readonly graphMessage?: string;
+  public readonly requestId?: string;
+  public readonly date?: string;
+  public readonly url?: string;
+  public readonly contentRequest: boolean;
+
+  public constructor(details: GraphErrorDetails) {
+    const prefix = details.contentRequest ? "Graph content request failed" : "Graph request failed";
+    const summary = [details.code, details.graphMessage].filter(Boolean).join(": ");
+    super(summary ? `${prefix} (${details.status}): ${summary}` : `${prefix} (${details.status})`, "graph");
+    this.name = "GraphError";
+    this.status = details.status;
+    this.code = details.code;
+    this.graphMessage = details.graphMessage;
+    this.requestId = details.requestId;
+    this.date = details.date;
+    this.url = details.url;
+    this.contentRequest = details.contentRequest ?? false;
+  }
+
+  public static fromResponse(
+    status: number,
+    body: string,
+    headers?: { get(name: string): string | null },
+    url?: string,
+    contentRequest?: boolean
+  ): GraphError {
+    let payload: GraphErrorPayload = {};
+    try {
+      payload = JSON.parse(body) as GraphErrorPayload;
+    } catch {
+      // Non-JSON bodies (for example gateway errors) only carry the status.
+    }
+    const inner = payload.error?.innerError;
+    return new GraphError({
+      status,
+      code: payload.error?.code,
+      graphMessage: payload.error?.message ?? (body.trim() ? body.trim().slice(0, 200) : undefined),
+      requestId: inner?.["request-id"] ?? headers?.get("request-id") ?? undefined,
+      date: inner?.date ?? headers?.get("date") ?? undefined,
+      url,
+      contentRequest
+    });
+  }
+}
+
+export function isOneDriveErrorKind(error: unknown, kind: OneDriveErrorKind): boolean {
+  return error instanceof OneDriveError && error.kind === kind;
+}
+
+export function isAuthRequired(error: unknown): boolean {
+  return isOneDriveErrorKind(error, "authRequired");
+}
+
+// Signed out, unreachable or timed out: Graph cannot answer right now, but nothing is wrong with the item.
+export function isOfflineError(error: unknown): boolean {
+  return isAuthRequired(error) || isOneDriveErrorKind(error, "network") || isOneDriveErrorKind(error, "timeout");
+}
@@ -0,0 +1,228 @@
+import { OneDriveError } from "./graph-errors";
+
+export interface GraphTransportSettings {
+  maxRetries: number;
+  timeoutMs: number;
+  maxConcurrency: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface GraphRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_SETTINGS: GraphTransportSettings = {
+  maxRetries: 4,
+  timeoutMs: 30000,
+  maxConcurrency: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+// A response whose attempt timeout keeps running until `settle`, so it also bounds reading the body.
+interface SentRequest {
+  response: Response;
+  settle(): void;
+  timedOut(): boolean;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+// Statuses where the server refused the request before acting on it, so even a write can be sent again.
+const THROTTLED_STATUSES = new Set([429, 503]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"]);
+
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function computeBackoffDelay(attempt: number, settings: Pick<GraphTransportSettings, "baseDelayMs" | "maxDelayMs">, random = Math.random): number {
+  const exponential = settings.baseDelayMs * 2 ** attempt;
+  // Jitter keeps parallel resolution requests from retrying in lockstep.
+  return Math.min(settings.maxDelayMs, Math.round(exponential * (0.5 + random() / 2)));
+}
+
+export class GraphTransport {
+  private settings: GraphTransportSettings;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  public constructor(settings?: Partial<GraphTransportSettings>) {
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+  }
+
+  public configure(settings: Partial<GraphTransportSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.drain();
+  }
+
+  /**
+   * Sends a request through the shared pipeline and hands the final response to `handle` while the
+   * concurrency slot is still held, so response bodies are read under the same cap. The request timeout
+   * covers `handle` too: a body that stalls mid-download fails with a timeout instead of hanging.
+   */
+  public async request<T>(url: string, init: GraphRequestInit, handle: (response: Response) => Promise<T>): Promise<T> {
+    await this.acquire(init.signal);
+    try {
+      const sent = await this.sendWithRetries(url, init);
+      try {
+        return await handle(sent.response);
+      } catch (error) {
+        if (init.signal?.aborted) {
+          throw cancelledError();
+        }
+        if (sent.timedOut()) {
+          throw this.timeoutError();
+        }
+        throw error;
+      } finally {
+        sent.settle();
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  // Reads are retried after timeouts, network errors and retryable statuses. A write may already have reached
+  // the server when its response was lost, so it is only re-sent after a throttling response with Retry-After.
+  private async sendWithRetries(url: string, init: GraphRequestInit): Promise<SentRequest> {
+    const idempotent = IDEMPOTENT_METHODS.has((init.method ?? "GET").toUpperCase());
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.settings.maxRetries;
+      let sent: SentRequest;
+      try {
+        sent = await this.sendOnce(url, init);
+      } catch (error) {
+        if (!canRetry || !idempotent || (error instanceof OneDriveError && error.kind === "cancelled")) {
+          throw error;
+        }
+        await sleep(computeBackoffDelay(attempt, this.settings), init.signal);
+        continue;
+      }
+
+      const response = sent.response;
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      const retryable = idempotent
+        ? RETRYABLE_STATUSES.has(response.status)
+        : THROTTLED_STATUSES.has(response.status) && retryAfter !== undefined;
+      if (!retryable || !canRetry) {
+        return sent;
+      }
+
+      const delay = retryAfter !== undefined
+        ? Math.min(retryAfter, this.settings.maxDelayMs)
+        : computeBackoffDelay(attempt, this.settings);
+      await response.body?.cancel().catch(() => undefined);
+      sent.settle();
+      await sleep(delay, init.signal);
+    }
+  }
+
+  private async sendOnce(url: string, init: GraphRequestInit): Promise<SentRequest> {
+    if (init.signal?.aborted) {
+      throw cancelledError();
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.settings.timeoutMs);
+    const onAbort = (): void => controller.abort();
+    init.signal?.addEventListener("abort", onAbort);
+    const settle = (): void => {
+      clearTimeout(timer);
+      init.signal?.removeEventListener("abort", onAbort);
+    };
+
+    try {
+      const response = await fetch(url, { method: init.method ?? "GET", headers: init.headers, signal: controller.signal });
+      return { response, settle, timedOut: () => timedOut };
+    } catch (error) {
+      settle();
+      if (init.signal?.aborted) {
+        throw cancelledError();
+      }
+      if (timedOut) {
+        throw this.timeoutError();
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new OneDriveError(`Graph request failed to reach the server: ${message}`, "network");
+    }
+  }
+
+  private timeoutError(): OneDriveError {
+    return new OneDriveError(`Graph request timed out after ${this.settings.timeoutMs} ms.`, "timeout");
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw cancelledError();
+    }
+    if (this.active < this.settings.maxConcurrency) {
+      this.active++;
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = this.waiting.indexOf(grant);
+        if (index >= 0) {
+          this.waiting.splice(index, 1);
+        }
+        reject(cancelledError());
+      };
+      const grant = (): void => {
+        signal?.removeEventListener("abort", onAbort);
+        this.active++;
+        resolve();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(grant);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.waiting.length && this.active < this.settings.maxConcurrency) {
+      this.waiting.shift()?.();
+    }
+  }
+}
+
+function cancelledError(): OneDriveError {
+  return new OneDriveError("Graph request was cancelled.", "cancelled");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,59 @@
+import { splitLines } from "./line-diff";
+
+export interface LineMatch {
+  line: number;
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+export interface PresenceRange {
+  // Indexes into a newest-first version list.
+  newestIndex: number;
+  oldestIndex: number;
+  versionCount: number;
+}
+
+// "/pattern/flags" is a regular expression; anything else is a case-insensitive literal.
+export function parseSearchQuery(input: string): RegExp {
+  const regex = input.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    const flags = regex[2].includes("g") ? regex[2] : `${regex[2]}g`;
+    return new RegExp(regex[1], flags);
+  }
+  return new RegExp(input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+}
+
+export function findLineMatches(text: string, pattern: RegExp, contextLines = 1, maxMatches = Number.POSITIVE_INFINITY): LineMatch[] {
+  const lines = splitLines(text);
+  const matches: LineMatch[] = [];
+  for (let line = 0; line < lines.length && matches.length < maxMatches; line++) {
+    pattern.lastIndex = 0;
+    if (pattern.test(lines[line])) {
+      matches.push({
+        line,
+        text: lines[line],
+        before: lines.slice(Math.max(0, line - contextLines), line),
+        after: lines.slice(line + 1, line + 1 + contextLines)
+      });
+    }
+  }
+  pattern.lastIndex = 0;
+  return matches;
+}
+
+export function findPresenceRange(matchCountsNewestFirst: readonly number[]): PresenceRange | undefined {
+  let newestIndex = -1;
+  let oldestIndex = -1;
+  let versionCount = 0;
+  matchCountsNewestFirst.forEach((count, index) => {
+    if (count > 0) {
+      if (newestIndex < 0) {
+        newestIndex = index;
+      }
+      oldestIndex = index;
+      versionCount++;
+    }
+  });
+  return versionCount ? { newestIndex, oldestIndex, versionCount } : undefined;
+}
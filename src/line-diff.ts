@@ -0,0 +1,172 @@
+const DEFAULT_MAX_EDIT_DISTANCE = 4000;
+
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+// Myers diff over lines. Returns, for every line of `next`, the index of the matching line in `previous`
+// or undefined when the line was inserted. Past `maxEditDistance` the texts are treated as fully rewritten.
+export function matchLines(
+  previous: readonly string[],
+  next: readonly string[],
+  maxEditDistance = DEFAULT_MAX_EDIT_DISTANCE
+): Array<number | undefined> {
+  const matches: Array<number | undefined> = new Array(next.length).fill(undefined);
+
+  let start = 0;
+  while (start < previous.length && start < next.length && previous[start] === next[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let previousEnd = previous.length;
+  let nextEnd = next.length;
+  while (previousEnd > start && nextEnd > start && previous[previousEnd - 1] === next[nextEnd - 1]) {
+    previousEnd--;
+    nextEnd--;
+    matches[nextEnd] = previousEnd;
+  }
+
+  const a = previous.slice(start, previousEnd);
+  const b = next.slice(start, nextEnd);
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) {
+    return matches;
+  }
+
+  const max = Math.min(n + m, maxEditDistance);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = -1;
+
+  for (let d = 0; d <= max && found < 0; d++) {
+    // Only diagonals -d..d are read when backtracking from step d.
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+
+  if (found < 0) {
+    return matches;
+  }
+
+  let x = n;
+  let y = m;
+  for (let d = found; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number): number => snapshot[k + d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = d === 0 ? 0 : previousX - previousK;
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      matches[start + y] = start + x;
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  return matches;
+}
+
+// `texts` runs oldest to newest. Each line of the newest text gets the index of the text that introduced it.
+export function attributeLines(texts: readonly string[], maxEditDistance = DEFAULT_MAX_EDIT_DISTANCE): number[] {
+  if (!texts.length) {
+    return [];
+  }
+
+  let lines = splitLines(texts[0]);
+  let owners = lines.map(() => 0);
+  for (let index = 1; index < texts.length; index++) {
+    const nextLines = splitLines(texts[index]);
+    const matches = matchLines(lines, nextLines, maxEditDistance);
+    owners = matches.map((match) => (match === undefined ? index : owners[match]));
+    lines = nextLines;
+  }
+  return owners;
+}
+
+export interface LineHunk {
+  previousStart: number;
+  previousEnd: number;
+  nextStart: number;
+  nextEnd: number;
+}
+
+// Groups the unmatched lines of a `matchLines` result into hunks. Ends are exclusive; an empty side means pure
+// insertion or deletion.
+export function computeHunks(previous: readonly string[], next: readonly string[], maxEditDistance = DEFAULT_MAX_EDIT_DISTANCE): LineHunk[] {
+  const matches = matchLines(previous, next, maxEditDistance);
+  const hunks: LineHunk[] = [];
+  let previousIndex = 0;
+  let nextIndex = 0;
+  while (previousIndex < previous.length || nextIndex < next.length) {
+    if (nextIndex < next.length && matches[nextIndex] === previousIndex) {
+      previousIndex++;
+      nextIndex++;
+      continue;
+    }
+    const nextStart = nextIndex;
+    while (nextIndex < next.length && matches[nextIndex] === undefined) {
+      nextIndex++;
+    }
+    // The scan stopped either at the end of `next` or at the next matched line.
+    const matched = matches[nextIndex];
+    const previousEnd = nextIndex < next.length && matched !== undefined ? matched : previous.length;
+    hunks.push({ previousStart: previousIndex, previousEnd, nextStart, nextEnd: nextIndex });
+    previousIndex = previousEnd;
+  }
+  return hunks;
+}
+
+export interface LinePosition {
+  line: number;
+  character: number;
+}
+
+export interface LineEdit {
+  start: LinePosition;
+  end: LinePosition;
+  text: string;
+}
+
+// The edit that turns a hunk of `next` back into the matching lines of `previous`. Positions refer to `next`,
+// so edits from different hunks of the same diff can be applied together.
+export function toRevertEdit(hunk: LineHunk, previous: readonly string[], next: readonly string[], eol: string): LineEdit {
+  const restored = previous.slice(hunk.previousStart, hunk.previousEnd).join(eol);
+  const lineEnd = (line: number): LinePosition => ({ line, character: next[line].length });
+
+  if (hunk.nextStart < hunk.nextEnd) {
+    if (hunk.previousStart < hunk.previousEnd) {
+      return { start: { line: hunk.nextStart, character: 0 }, end: lineEnd(hunk.nextEnd - 1), text: restored };
+    }
+    // Remove whole lines, including one line break.
+    if (hunk.nextEnd < next.length) {
+      return { start: { line: hunk.nextStart, character: 0 }, end: { line: hunk.nextEnd, character: 0 }, text: "" };
+    }
+    if (hunk.nextStart > 0) {
+      return { start: lineEnd(hunk.nextStart - 1), end: lineEnd(hunk.nextEnd - 1), text: "" };
+    }
+    return { start: { line: 0, character: 0 }, end: lineEnd(next.length - 1), text: "" };
+  }
+
+  if (hunk.nextStart < next.length) {
+    return { start: { line: hunk.nextStart, character: 0 }, end: { line: hunk.nextStart, character: 0 }, text: restored + eol };
+  }
+  const end = lineEnd(next.length - 1);
+  return { start: end, end, text: eol + restored };
+}
@@ -0,0 +1,123 @@
+import * as http from "node:http";
+import { AuthError, AuthorizeResponse, ILoopbackClient } from "@azure/msal-node";
+import { OneDriveError } from "./graph-errors";
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const SIGNED_IN_PATH = "/signed-in";
+// MSAL's `waitForRedirectUri` keeps polling only while `getRedirectUri` throws this code; any other error aborts sign-in.
+export const NO_LOOPBACK_SERVER_EXISTS = "no_loopback_server_exists";
+
+export interface LoopbackRedirectOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Short-lived localhost redirect target for MSAL's auth-code + PKCE flow (`acquireTokenInteractive`).
+ * Accepts one redirect carrying `code` or `error`, answers anything else (favicon, probes) with 404,
+ * and gives up after a timeout or when the signal aborts so an abandoned browser tab cannot hang sign-in.
+ */
+export class LoopbackRedirectServer implements ILoopbackClient {
+  private server?: http.Server;
+
+  public constructor(private readonly options: LoopbackRedirectOptions = {}) {}
+
+  public listenForAuthCode(successTemplate?: string, errorTemplate?: string): Promise<AuthorizeResponse> {
+    if (this.server) {
+      return Promise.reject(new Error("The sign-in redirect listener is already running."));
+    }
+
+    return new Promise<AuthorizeResponse>((resolve, reject) => {
+      const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      const signal = this.options.signal;
+      let settled = false;
+      const finish = (): boolean => {
+        if (settled) {
+          return false;
+        }
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        return true;
+      };
+      const fail = (error: Error): void => {
+        if (finish()) {
+          this.closeServer();
+          reject(error);
+        }
+      };
+      const succeed = (response: AuthorizeResponse): void => {
+        if (finish()) {
+          resolve(response);
+        }
+      };
+      const onAbort = (): void => fail(new OneDriveError("Browser sign-in was cancelled.", "cancelled"));
+      const timer = setTimeout(
+        () => fail(new OneDriveError(`Browser sign-in did not complete within ${Math.round(timeoutMs / 1000)} seconds.`, "timeout")),
+        timeoutMs
+      );
+
+      const server = http.createServer((request, response) => {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        if (url.pathname === SIGNED_IN_PATH) {
+          sendPage(response, 200, successTemplate ?? renderPage("Signed in. You can close this tab and return to VS Code."));
+          return;
+        }
+        const params = url.searchParams;
+        if (request.method !== "GET" || (!params.has("code") && !params.has("error"))) {
+          response.writeHead(404).end();
+          return;
+        }
+
+        if (params.has("code")) {
+          // Redirect so the authorization code does not stay in the browser history.
+          response.writeHead(302, { Location: SIGNED_IN_PATH }).end();
+        } else {
+          const description = params.get("error_description") ?? params.get("error") ?? "unknown error";
+          sendPage(response, 400, errorTemplate ?? renderPage(`Sign-in failed: ${description}`));
+        }
+        succeed(Object.fromEntries(params) as AuthorizeResponse);
+      });
+      server.on("error", (error) => fail(error));
+      this.server = server;
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      server.listen(0, "127.0.0.1");
+    });
+  }
+
+  // MSAL polls this every 100 ms, for up to 5 seconds, until the server is listening.
+  public getRedirectUri(): string {
+    const address = this.server?.listening ? this.server.address() : undefined;
+    if (!address || typeof address === "string") {
+      throw new AuthError(NO_LOOPBACK_SERVER_EXISTS, "The sign-in redirect listener is not running yet.");
+    }
+    return `http://localhost:${address.port}`;
+  }
+
+  public closeServer(): void {
+    if (!this.server) {
+      return;
+    }
+    this.server.close();
+    this.server.closeAllConnections();
+    this.server = undefined;
+  }
+}
+
+function sendPage(response: http.ServerResponse, status: number, html: string): void {
+  response.writeHead(status, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" });
+  response.end(html);
+}
+
+function renderPage(message: string): string {
+  return `<!DOCTYPE html><html><body><p>${escapeHtml(message)}</p></body></html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,54 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+export interface Manifest<T> {
+  entries: T[];
+}
+
+/**
+ * A JSON manifest of entries on disk, read once and then kept in memory. A missing or corrupt file reads as
+ * empty, and saves go through a temporary file and a rename, so a crash mid-write never leaves a torn manifest.
+ */
+export class ManifestFile<T> {
+  private manifest?: Manifest<T>;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  public constructor(private readonly filePath: string) {}
+
+  // The in-memory manifest, if it has been read.
+  public get loaded(): Manifest<T> | undefined {
+    return this.manifest;
+  }
+
+  public async load(): Promise<Manifest<T>> {
+    if (this.manifest) {
+      return this.manifest;
+    }
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, "utf8")) as Partial<Manifest<T>>;
+      this.manifest = { entries: Array.isArray(parsed.entries) ? parsed.entries : [] };
+    } catch {
+      this.manifest = { entries: [] };
+    }
+    return this.manifest;
+  }
+
+  public async save(manifest: Manifest<T>): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(manifest), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Forgets the in-memory manifest after its directory was removed.
+  public reset(): void {
+    this.manifest = { entries: [] };
+  }
+
+  // Runs operations one at a time in call order; a failed operation does not block the next one.
+  public serialize<R>(operation: () => Promise<R>): Promise<R> {
+    const next = this.pending.then(operation, operation);
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
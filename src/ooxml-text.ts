@@ -0,0 +1,162 @@
+import * as path from "node:path";
+import { readZipEntries } from "./zip-reader";
+
+type ZipEntries = Map<string, () => Uint8Array>;
+
+export function extractDocxText(bytes: Uint8Array): string {
+  const entries = readZipEntries(bytes);
+  const document = readPart(entries, "word/document.xml");
+  if (document === undefined) {
+    throw new Error("Word document part not found.");
+  }
+  return collectParagraphs(document, "w").join("\n");
+}
+
+export function extractXlsxText(bytes: Uint8Array): string {
+  const entries = readZipEntries(bytes);
+  const workbook = readPart(entries, "xl/workbook.xml");
+  if (workbook === undefined) {
+    throw new Error("Excel workbook part not found.");
+  }
+
+  const sharedStrings = parseSharedStrings(readPart(entries, "xl/sharedStrings.xml") ?? "");
+  const targets = readRelationshipTargets(entries, "xl/workbook.xml");
+  const sections: string[] = [];
+  for (const sheetTag of workbook.match(/<sheet\b[^>]*>/g) ?? []) {
+    const name = decodeXmlEntities(getAttribute(sheetTag, "name") ?? "Sheet");
+    const target = targets.get(getAttribute(sheetTag, "r:id") ?? "");
+    const sheet = target ? readPart(entries, target) : undefined;
+    const lines = [`## Sheet: ${name}`];
+    if (sheet !== undefined) {
+      lines.push(...listCells(sheet, sharedStrings));
+    }
+    sections.push(lines.join("\n"));
+  }
+  return sections.join("\n\n");
+}
+
+export function extractPptxText(bytes: Uint8Array): string {
+  const entries = readZipEntries(bytes);
+  const presentation = readPart(entries, "ppt/presentation.xml");
+  const targets = readRelationshipTargets(entries, "ppt/presentation.xml");
+
+  let slideParts = (presentation?.match(/<p:sldId\b[^>]*>/g) ?? [])
+    .map((tag) => targets.get(getAttribute(tag, "r:id") ?? ""))
+    .filter((target): target is string => Boolean(target));
+  if (!slideParts.length) {
+    // Fall back to part names when the presentation part lists no slides.
+    slideParts = [...entries.keys()]
+      .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+  }
+
+  return slideParts
+    .map((part, index) => {
+      const paragraphs = collectParagraphs(readPart(entries, part) ?? "", "a").filter((line) => line.trim().length > 0);
+      return [`## Slide ${index + 1}`, ...paragraphs].join("\n");
+    })
+    .join("\n\n");
+}
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    switch (entity) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return "\"";
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+function readPart(entries: ZipEntries, name: string): string | undefined {
+  const read = entries.get(name);
+  return read ? new TextDecoder("utf-8").decode(read()) : undefined;
+}
+
+function readRelationshipTargets(entries: ZipEntries, partName: string): Map<string, string> {
+  const directory = path.posix.dirname(partName);
+  const relsXml = readPart(entries, `${directory}/_rels/${path.posix.basename(partName)}.rels`) ?? "";
+  const targets = new Map<string, string>();
+  for (const tag of relsXml.match(/<Relationship\b[^>]*>/g) ?? []) {
+    const id = getAttribute(tag, "Id");
+    const target = getAttribute(tag, "Target");
+    if (id && target && getAttribute(tag, "TargetMode") !== "External") {
+      const decoded = decodeXmlEntities(target);
+      targets.set(id, decoded.startsWith("/") ? decoded.slice(1) : path.posix.normalize(`${directory}/${decoded}`));
+    }
+  }
+  return targets;
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return tag.match(new RegExp(`\\s${escaped}="([^"]*)"`))?.[1];
+}
+
+// Paragraph text for WordprocessingML (`w`) and DrawingML (`a`), keeping tabs and line breaks.
+function collectParagraphs(xml: string, prefix: "w" | "a"): string[] {
+  const paragraphPattern = new RegExp(`<${prefix}:p(?:\\s[^>]*)?>[\\s\\S]*?</${prefix}:p>|<${prefix}:p(?:\\s[^>]*)?/>`, "g");
+  const runPattern = new RegExp(`<${prefix}:t(?:\\s[^>]*)?>([\\s\\S]*?)</${prefix}:t>|<${prefix}:tab/>|<${prefix}:(?:br|cr)(?:\\s[^>]*)?/>`, "g");
+  return (xml.match(paragraphPattern) ?? []).map((paragraph) => {
+    let text = "";
+    for (const run of paragraph.matchAll(runPattern)) {
+      if (run[1] !== undefined) {
+        text += decodeXmlEntities(run[1]);
+      } else {
+        text += run[0].startsWith(`<${prefix}:tab`) ? "\t" : "\n";
+      }
+    }
+    return text;
+  });
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return (xml.match(/<si>[\s\S]*?<\/si>/g) ?? []).map((item) => {
+    // Phonetic runs repeat the text as reading hints and are not part of the cell value.
+    const withoutPhonetics = item.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+    return [...withoutPhonetics.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => decodeXmlEntities(match[1])).join("");
+  });
+}
+
+function listCells(sheetXml: string, sharedStrings: readonly string[]): string[] {
+  const lines: string[] = [];
+  for (const cell of sheetXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+    const attributes = ` ${cell[1]}`;
+    const body = cell[2] ?? "";
+    const reference = getAttribute(attributes, "r") ?? "?";
+    const type = getAttribute(attributes, "t");
+    const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+    const formula = body.match(/<f(?:\s[^>]*)?>([\s\S]*?)<\/f>/)?.[1];
+
+    let value: string | undefined;
+    if (type === "s" && raw !== undefined) {
+      value = sharedStrings[Number(raw)] ?? "";
+    } else if (type === "inlineStr") {
+      value = [...body.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => decodeXmlEntities(match[1])).join("");
+    } else if (type === "b" && raw !== undefined) {
+      value = raw === "1" ? "TRUE" : "FALSE";
+    } else if (raw !== undefined) {
+      value = decodeXmlEntities(raw);
+    }
+
+    if (value === undefined && formula === undefined) {
+      continue;
+    }
+    const formulaSuffix = formula === undefined ? "" : ` (=${decodeXmlEntities(formula)})`;
+    lines.push(`${reference}: ${(value ?? "").replace(/\r?\n/g, "\\n")}${formulaSuffix}`);
+  }
+  return lines;
+}
+
+function slideNumber(partName: string): number {
+  return Number(partName.match(/slide(\d+)\.xml$/)?.[1] ?? 0);
+}
@@ -0,0 +1,34 @@
+export interface DeltaDriveItem {
+  id: string;
+  name?: string;
+  deleted?: Record<string, unknown>;
+  folder?: Record<string, unknown>;
+  size?: number;
+  lastModifiedDateTime?: string;
+  parentReference?: {
+    id?: string;
+  };
+}
+
+// Delta pages can report the same item more than once; the last report is its current state. Deletion
+// reports on OneDrive for Business often omit `name` and `parentReference`, so those are kept from earlier reports.
+function latestReports<T extends DeltaDriveItem>(items: Iterable<T>): T[] {
+  const latest = new Map<string, T>();
+  for (const item of items) {
+    const earlier = latest.get(item.id);
+    latest.set(item.id, earlier ? { ...item, name: item.name ?? earlier.name, parentReference: item.parentReference ?? earlier.parentReference } : item);
+  }
+  return [...latest.values()];
+}
+
+// Returns the deleted files directly under `folderId`, most recently changed first.
+export function collectDeletedChildren<T extends DeltaDriveItem>(items: Iterable<T>, folderId: string): T[] {
+  return latestReports(items)
+    .filter((item) => item.deleted && !item.folder && item.parentReference?.id === folderId)
+    .sort((a, b) => Date.parse(b.lastModifiedDateTime ?? "") - Date.parse(a.lastModifiedDateTime ?? "") || 0);
+}
+
+// Deleted files whose delta reports never said where they lived, so they cannot be attributed to a folder.
+export function countUnplacedDeletions(items: Iterable<DeltaDriveItem>): number {
+  return latestReports(items).filter((item) => item.deleted && !item.folder && !item.parentReference?.id).length;
+}
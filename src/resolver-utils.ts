@@ -1,18 +1,76 @@
+import { GraphError, isOneDriveErrorKind } from "./graph-errors";
+
 export function isGraphNotFound(error: unknown): boolean {
-  const message = error instanceof Error ? error.message : String(error);
-  return message.includes("Graph request failed (404)") || message.includes("itemNotFound");
+  if (error instanceof GraphError) {
+    return error.status === 404 || error.code === "itemNotFound";
+  }
+  return isOneDriveErrorKind(error, "itemNotFound");
 }
 
 export function isGraphAccessDenied(error: unknown): boolean {
-  const message = error instanceof Error ? error.message : String(error);
-  return message.includes("Graph request failed (403)") || message.includes("accessDenied");
+  return error instanceof GraphError && (error.status === 403 || error.code === "accessDenied");
 }
 
 export function isGraphCurrentVersionContentUnsupported(error: unknown): boolean {
+  return error instanceof GraphError
+    && error.contentRequest
+    && error.status === 400
+    && error.code === "invalidRequest"
+    && Boolean(error.graphMessage?.includes("current version"));
+}
+
+// Graph only restores deleted items on OneDrive Personal; other drives reject the call as unsupported or invalid.
+export function isGraphRestoreUnsupported(error: unknown): boolean {
+  return error instanceof GraphError && (error.status === 400 || error.status === 501 || error.code === "notSupported");
+}
+
+// OneDrive for Business only supports delta queries on the drive root. Other 400s (bad tokens, throttled
+// resync requests) are real failures and must not trigger the drive-wide fallback.
+export function isGraphFolderDeltaUnsupported(error: unknown): boolean {
+  if (!(error instanceof GraphError)) {
+    return false;
+  }
+  if (error.status === 501 || error.code === "notSupported") {
+    return true;
+  }
+  return error.status === 400 && error.code === "invalidRequest" && /delta/i.test(error.graphMessage ?? "");
+}
+
+// Errors from a token request that mean the user or tenant declined the requested scope, as opposed to
+// network failures or broken configuration. MSAL errors carry `errorCode`; VS Code auth only has a message.
+const CONSENT_REFUSAL_PATTERN = /consent_required|interaction_required|AADSTS65001|access_denied|authorization_declined|did not consent|user cancel/i;
+
+export function isConsentRefusal(error: unknown): boolean {
+  if (isOneDriveErrorKind(error, "cancelled")) {
+    return true;
+  }
+  const errorCode = typeof error === "object" && error !== null ? (error as { errorCode?: unknown }).errorCode : undefined;
   const message = error instanceof Error ? error.message : String(error);
-  return message.includes("Graph content request failed (400)")
-    && message.includes("invalidRequest")
-    && message.includes("current version");
+  return CONSENT_REFUSAL_PATTERN.test(`${typeof errorCode === "string" ? errorCode : ""} ${message}`);
+}
+
+export function isGraphWriteAccessRefused(error: unknown): boolean {
+  return isOneDriveErrorKind(error, "writeScopeRefused") || isGraphAccessDenied(error);
+}
+
+export function describeGraphErrorBody(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as { error?: { code?: string; message?: string } };
+    if (parsed.error?.code) {
+      return parsed.error.message ? `${parsed.error.code}: ${parsed.error.message}` : parsed.error.code;
+    }
+  } catch {
+    // Not a Graph JSON error payload.
+  }
+  const trimmed = body.trim();
+  return trimmed ? redactSecrets(trimmed.slice(0, 200)) : "no response body";
+}
+
+export function redactSecrets(text: string): string {
+  return text
+    .replace(/(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/gi, "$1[redacted]")
+    .replace(/((?:access_token|refresh_token|id_token|code|tempauth)=)[^&\s"]+/gi, "$1[redacted]")
+    .replace(/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, "[redacted-jwt]");
 }
 
 export function buildRemotePathCandidates(remotePath: string): string[] {
@@ -73,3 +131,39 @@ export function getRelativePathByUrlPrefix(targetUrl: string, baseUrl: string):
     return undefined;
   }
 }
+
+export function isRemoteItemPathConsistent(
+  parentPath: string | undefined,
+  name: string,
+  relativeSegments: string[]
+): boolean {
+  const expectedName = relativeSegments[relativeSegments.length - 1];
+  if (!expectedName || expectedName.toLowerCase() !== name.toLowerCase()) {
+    return false;
+  }
+  if (!parentPath) {
+    return true;
+  }
+
+  const marker = parentPath.indexOf("root:");
+  if (marker < 0) {
+    return true;
+  }
+
+  let parentSegments: string[];
+  try {
+    parentSegments = decodeURIComponent(parentPath.slice(marker + "root:".length))
+      .split("/")
+      .filter((segment) => segment.length > 0);
+  } catch {
+    return true;
+  }
+
+  // Mappings may point below the drive root, so only the trailing segments must line up.
+  const expectedParents = relativeSegments.slice(0, -1);
+  if (expectedParents.length > parentSegments.length) {
+    return false;
+  }
+  const tail = parentSegments.slice(parentSegments.length - expectedParents.length);
+  return expectedParents.every((segment, index) => segment.toLowerCase() === tail[index]?.toLowerCase());
+}
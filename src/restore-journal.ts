@@ -0,0 +1,110 @@
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Manifest, ManifestFile } from "./manifest-file";
+
+export interface RestoreJournalInput {
+  localPath: string;
+  versionId: string;
+  versionDate: string;
+  mode: "local" | "server";
+  // Shared by every file restored in one folder restore, so they can be undone together.
+  batchId?: string;
+}
+
+export interface RestoreJournalEntry extends RestoreJournalInput {
+  id: string;
+  restoredAt: string;
+  backupSize: number;
+  revertedAt?: string;
+}
+
+type RestoreJournalManifest = Manifest<RestoreJournalEntry>;
+
+const MANIFEST_FILE = "journal.json";
+const BACKUP_DIR = "backups";
+
+/**
+ * Keeps a copy of each local file's bytes from just before a restore, plus a journal of restores,
+ * so restores can be undone even before OneDrive sync has caught up. Past the cap, the oldest restores are
+ * pruned a whole folder restore at a time; the batch being recorded is never pruned, so it may exceed the cap.
+ */
+export class RestoreJournal {
+  private readonly manifestFile: ManifestFile<RestoreJournalEntry>;
+
+  public constructor(
+    private readonly rootDir: string,
+    private readonly maxEntries: number
+  ) {
+    this.manifestFile = new ManifestFile(path.join(rootDir, MANIFEST_FILE));
+  }
+
+  public async record(input: RestoreJournalInput, backup: Uint8Array): Promise<RestoreJournalEntry> {
+    return this.manifestFile.serialize(async () => {
+      const manifest = await this.manifestFile.load();
+      const entry: RestoreJournalEntry = { ...input, id: randomUUID(), restoredAt: new Date().toISOString(), backupSize: backup.byteLength };
+      await fs.mkdir(path.join(this.rootDir, BACKUP_DIR), { recursive: true });
+      await fs.writeFile(path.join(this.rootDir, BACKUP_DIR, entry.id), backup);
+
+      manifest.entries.unshift(entry);
+      await this.prune(manifest, entry);
+      await this.manifestFile.save(manifest);
+      return entry;
+    });
+  }
+
+  public async remove(id: string): Promise<void> {
+    await this.manifestFile.serialize(async () => {
+      const manifest = await this.manifestFile.load();
+      manifest.entries = manifest.entries.filter((entry) => entry.id !== id);
+      await fs.rm(path.join(this.rootDir, BACKUP_DIR, id), { force: true });
+      await this.manifestFile.save(manifest);
+    });
+  }
+
+  // Newest first.
+  public async list(): Promise<RestoreJournalEntry[]> {
+    return this.manifestFile.serialize(async () => [...(await this.manifestFile.load()).entries]);
+  }
+
+  // The most recent restore that has not been reverted, with the rest of its batch.
+  public async getLastRestore(): Promise<RestoreJournalEntry[]> {
+    return this.manifestFile.serialize(async () => {
+      const entries = (await this.manifestFile.load()).entries.filter((entry) => !entry.revertedAt);
+      const latest = entries[0];
+      if (!latest) {
+        return [];
+      }
+      return latest.batchId ? entries.filter((entry) => entry.batchId === latest.batchId) : [latest];
+    });
+  }
+
+  public async readBackup(entry: RestoreJournalEntry): Promise<Uint8Array> {
+    return new Uint8Array(await fs.readFile(path.join(this.rootDir, BACKUP_DIR, entry.id)));
+  }
+
+  public async markReverted(id: string): Promise<void> {
+    await this.manifestFile.serialize(async () => {
+      const manifest = await this.manifestFile.load();
+      const entry = manifest.entries.find((candidate) => candidate.id === id);
+      if (entry) {
+        entry.revertedAt = new Date().toISOString();
+        await this.manifestFile.save(manifest);
+      }
+    });
+  }
+
+  private async prune(manifest: RestoreJournalManifest, recorded: RestoreJournalEntry): Promise<void> {
+    while (manifest.entries.length > this.maxEntries) {
+      const oldest = manifest.entries[manifest.entries.length - 1];
+      if (oldest === recorded || (recorded.batchId && oldest.batchId === recorded.batchId)) {
+        return;
+      }
+      const pruned = new Set(oldest.batchId ? manifest.entries.filter((entry) => entry.batchId === oldest.batchId) : [oldest]);
+      manifest.entries = manifest.entries.filter((entry) => !pruned.has(entry));
+      for (const entry of pruned) {
+        await fs.rm(path.join(this.rootDir, BACKUP_DIR, entry.id), { force: true });
+      }
+    }
+  }
+}
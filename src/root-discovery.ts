@@ -0,0 +1,121 @@
+import * as path from "node:path";
+
+export interface DiscoveredMapping {
+  localRoot: string;
+  driveId?: string;
+  remoteRoot?: string;
+}
+
+export interface RcloneRemote {
+  name: string;
+  driveId?: string;
+}
+
+export function expandHomeDir(input: string, homeDir: string): string {
+  if (input === "~") {
+    return homeDir;
+  }
+  if (input.startsWith("~/")) {
+    return path.join(homeDir, input.slice(2));
+  }
+  return input;
+}
+
+export function parseAbrauneggConfig(text: string, homeDir: string): DiscoveredMapping {
+  const values = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Za-z_]+)\s*=\s*"?(.*?)"?\s*$/);
+    if (match?.[1] && !line.trim().startsWith("#")) {
+      values.set(match[1].toLowerCase(), match[2] ?? "");
+    }
+  }
+
+  // The client syncs to ~/OneDrive unless sync_dir overrides it.
+  const syncDir = values.get("sync_dir")?.trim() || "~/OneDrive";
+  const driveId = values.get("drive_id")?.trim();
+  return {
+    localRoot: expandHomeDir(syncDir, homeDir),
+    driveId: driveId || undefined
+  };
+}
+
+export function parseRcloneOneDriveRemotes(text: string): RcloneRemote[] {
+  const remotes: Array<RcloneRemote & { type?: string }> = [];
+  let current: (RcloneRemote & { type?: string }) | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith(";")) {
+      continue;
+    }
+
+    const section = trimmed.match(/^\[(.+)\]$/);
+    if (section?.[1]) {
+      current = { name: section[1].trim() };
+      remotes.push(current);
+      continue;
+    }
+
+    const entry = trimmed.match(/^([A-Za-z_]+)\s*=\s*(.*)$/);
+    if (!entry?.[1] || !current) {
+      continue;
+    }
+    const key = entry[1].toLowerCase();
+    const value = (entry[2] ?? "").trim();
+    if (key === "type") {
+      current.type = value.toLowerCase();
+    } else if (key === "drive_id") {
+      current.driveId = value || undefined;
+    }
+  }
+
+  return remotes
+    .filter((remote) => remote.type === "onedrive")
+    .map(({ name, driveId }) => ({ name, driveId }));
+}
+
+export function parseRcloneMounts(mountsText: string, remotes: RcloneRemote[]): DiscoveredMapping[] {
+  const remotesByName = new Map(remotes.map((remote) => [remote.name, remote]));
+  const mappings: DiscoveredMapping[] = [];
+
+  for (const line of mountsText.split(/\r?\n/)) {
+    // Linux /proc/mounts: "<remote>:<path> <mountpoint> fuse.rclone ..." with octal-escaped spaces.
+    // macOS mount(8): "<remote>:<path> on <mountpoint> (macfuse, ...)".
+    let source: string | undefined;
+    let mountPoint: string | undefined;
+    const fields = line.trim().split(/\s+/);
+    if (fields.length >= 3 && fields[2] === "fuse.rclone") {
+      source = unescapeMountField(fields[0] ?? "");
+      mountPoint = unescapeMountField(fields[1] ?? "");
+    } else {
+      const macMatch = line.match(/^(\S+?:\S*) on (.+?) \(/);
+      source = macMatch?.[1];
+      mountPoint = macMatch?.[2];
+    }
+    if (!source || !mountPoint) {
+      continue;
+    }
+
+    const separator = source.indexOf(":");
+    const remote = separator > 0 ? remotesByName.get(source.slice(0, separator)) : undefined;
+    if (!remote) {
+      continue;
+    }
+    const remotePath = source.slice(separator + 1).replace(/^\/+|\/+$/g, "");
+    mappings.push({
+      localRoot: mountPoint,
+      driveId: remote.driveId,
+      remoteRoot: remotePath ? `/${remotePath}` : "/"
+    });
+  }
+
+  return mappings;
+}
+
+export function isMacCloudStorageOneDriveFolder(name: string): boolean {
+  return /^OneDrive-/i.test(name);
+}
+
+function unescapeMountField(value: string): string {
+  return value.replace(/\\([0-7]{3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+}
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { findBoundAccount, getBindingAuthorityTenant, parseAccountBinding } from "../account-utils";
+
+const work = {
+  homeAccountId: "11111111-1111-1111-1111-111111111111.22222222-2222-2222-2222-222222222222",
+  username: "ada@contoso.com",
+  tenantId: "22222222-2222-2222-2222-222222222222"
+};
+const personal = {
+  homeAccountId: "33333333-3333-3333-3333-333333333333.9188040d-6c67-4c5b-b112-36a304b66dad",
+  username: "ada@outlook.com",
+  tenantId: "9188040d-6c67-4c5b-b112-36a304b66dad"
+};
+
+test("parseAccountBinding classifies home account IDs, usernames and tenants", () => {
+  assert.equal(parseAccountBinding(work.homeAccountId)?.kind, "homeAccountId");
+  assert.equal(parseAccountBinding(" ada@contoso.com ")?.kind, "username");
+  assert.equal(parseAccountBinding("contoso.onmicrosoft.com")?.kind, "tenant");
+  assert.equal(parseAccountBinding("  "), undefined);
+});
+
+test("findBoundAccount matches each binding kind", () => {
+  const accounts = [work, personal];
+  assert.equal(findBoundAccount(accounts, { kind: "homeAccountId", value: personal.homeAccountId }), personal);
+  assert.equal(findBoundAccount(accounts, { kind: "username", value: "ADA@contoso.com" }), work);
+  assert.equal(findBoundAccount(accounts, { kind: "tenant", value: work.tenantId }), work);
+  assert.equal(findBoundAccount(accounts, { kind: "tenant", value: "contoso.com" }), work);
+  assert.equal(findBoundAccount(accounts, { kind: "tenant", value: "consumers" }), personal);
+  assert.equal(findBoundAccount(accounts, { kind: "tenant", value: "fabrikam.com" }), undefined);
+});
+
+test("getBindingAuthorityTenant only returns tenant bindings", () => {
+  assert.equal(getBindingAuthorityTenant({ kind: "tenant", value: "consumers" }), "consumers");
+  assert.equal(getBindingAuthorityTenant({ kind: "username", value: "ada@contoso.com" }), undefined);
+  assert.equal(getBindingAuthorityTenant(undefined), undefined);
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { buildHexRows, compareBytes, getImageMimeType, isProbablyBinary } from "../binary-compare";
+
+test("getImageMimeType recognizes raster image extensions", () => {
+  assert.equal(getImageMimeType("/photos/Trip.JPG"), "image/jpeg");
+  assert.equal(getImageMimeType("logo.png"), "image/png");
+  assert.equal(getImageMimeType("report.pdf"), undefined);
+});
+
+test("isProbablyBinary flags NUL bytes near the start", () => {
+  assert.equal(isProbablyBinary(new TextEncoder().encode("plain text\n")), false);
+  assert.equal(isProbablyBinary(Uint8Array.from([0x25, 0x50, 0x44, 0x46, 0x00])), true);
+});
+
+test("compareBytes reports sizes, hashes, and the first differing offset", () => {
+  const same = compareBytes(Uint8Array.from([1, 2, 3]), Uint8Array.from([1, 2, 3]));
+  assert.equal(same.identical, true);
+  assert.equal(same.firstDifference, undefined);
+  assert.equal(same.leftSha256, "039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81");
+
+  const changed = compareBytes(Uint8Array.from([1, 2, 3]), Uint8Array.from([1, 9, 3, 4]));
+  assert.equal(changed.identical, false);
+  assert.equal(changed.firstDifference, 1);
+  assert.equal(changed.rightSize, 4);
+
+  assert.equal(compareBytes(Uint8Array.from([1, 2]), Uint8Array.from([1, 2, 3])).firstDifference, 2);
+});
+
+test("buildHexRows aligns to row boundaries and pads the shorter side", () => {
+  const rows = buildHexRows(Uint8Array.from([0, 1, 2, 3, 4, 5]), Uint8Array.from([0, 1, 2, 3]), 5, 2, 4);
+  assert.deepEqual(rows, [{ offset: 4, left: [4, 5, undefined, undefined], right: [undefined, undefined, undefined, undefined] }]);
+});
@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { QuickXorHash, matchesDriveItemHashes, quickXorHashBase64, sha1Hex } from "../content-hash";
+
+const text = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+test("quickXorHashBase64 matches reference vectors", () => {
+  assert.equal(quickXorHashBase64(new Uint8Array(0)), "AAAAAAAAAAAAAAAAAAAAAAAAAAA=");
+  assert.equal(quickXorHashBase64(text("J")), "SgAAAAAAAAAAAAAAAQAAAAAAAAA=");
+  assert.equal(quickXorHashBase64(text("Hello, World!")), "SCgDG9jwBhaA4ApvnQMbyBACAAA=");
+  assert.equal(quickXorHashBase64(text("The quick brown fox jumps over the lazy dog")), "bMSlbysmxJL6S75XwfMcQZOpcr4=");
+
+  // Longer than the 160-byte register, so bytes wrap around more than once.
+  const ramp = Uint8Array.from({ length: 1000 }, (_value, index) => index & 0xff);
+  assert.equal(quickXorHashBase64(ramp), "eMTc7ksneLHFfWI8T9W9y23sExM=");
+});
+
+test("QuickXorHash gives the same digest when fed in chunks", () => {
+  const ramp = Uint8Array.from({ length: 1000 }, (_value, index) => index & 0xff);
+  const hash = new QuickXorHash().update(ramp.subarray(0, 7)).update(ramp.subarray(7, 333)).update(ramp.subarray(333));
+  assert.equal(hash.digest().toString("base64"), quickXorHashBase64(ramp));
+});
+
+test("matchesDriveItemHashes prefers QuickXorHash and falls back to SHA-1", () => {
+  const bytes = text("Hello, World!");
+  assert.equal(sha1Hex(bytes), "0A0A9F2A6772942557AB5355D76AF442F8F65E01");
+  assert.equal(matchesDriveItemHashes(bytes, { quickXorHash: "SCgDG9jwBhaA4ApvnQMbyBACAAA=", sha1Hash: "wrong" }), true);
+  assert.equal(matchesDriveItemHashes(bytes, { sha1Hash: "0a0a9f2a6772942557ab5355d76af442f8f65e01" }), true);
+  assert.equal(matchesDriveItemHashes(text("changed"), { quickXorHash: "SCgDG9jwBhaA4ApvnQMbyBACAAA=" }), false);
+  assert.equal(matchesDriveItemHashes(bytes, {}), undefined);
+  assert.equal(matchesDriveItemHashes(bytes, undefined), undefined);
+});
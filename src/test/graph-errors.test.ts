@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { GraphError, OneDriveError, isAuthRequired, isOfflineError, isOneDriveErrorKind } from "../graph-errors";
+import {
+  isGraphAccessDenied,
+  isConsentRefusal,
+  isGraphCurrentVersionContentUnsupported,
+  isGraphFolderDeltaUnsupported,
+  isGraphNotFound,
+  isGraphRestoreUnsupported,
+  isGraphWriteAccessRefused
+} from "../resolver-utils";
+
+function graphBody(code: string, message: string): string {
+  return JSON.stringify({
+    error: {
+      code,
+      message,
+      innerError: {
+        "request-id": "11111111-2222-3333-4444-555555555555",
+        date: "2026-02-16T10:00:00"
+      }
+    }
+  });
+}
+
+test("GraphError.fromResponse captures status, code, request-id and date", () => {
+  const error = GraphError.fromResponse(404, graphBody("itemNotFound", "The resource could not be found."));
+  assert.equal(error.status, 404);
+  assert.equal(error.code, "itemNotFound");
+  assert.equal(error.requestId, "11111111-2222-3333-4444-555555555555");
+  assert.equal(error.date, "2026-02-16T10:00:00");
+  assert.equal(error.kind, "graph");
+  assert.equal(error.message, "Graph request failed (404): itemNotFound: The resource could not be found.");
+});
+
+test("GraphError.fromResponse falls back to response headers for non-JSON bodies", () => {
+  const headers = new Map([["request-id", "abc"], ["date", "Mon, 16 Feb 2026 10:00:00 GMT"]]);
+  const error = GraphError.fromResponse(503, "Service Unavailable", { get: (name) => headers.get(name) ?? null }, undefined, true);
+  assert.equal(error.code, undefined);
+  assert.equal(error.requestId, "abc");
+  assert.equal(error.date, "Mon, 16 Feb 2026 10:00:00 GMT");
+  assert.equal(error.message, "Graph content request failed (503): Service Unavailable");
+});
+
+test("isGraphNotFound matches 404 responses and itemNotFound resolution errors", () => {
+  assert.ok(isGraphNotFound(GraphError.fromResponse(404, graphBody("itemNotFound", "missing"))));
+  assert.ok(isGraphNotFound(GraphError.fromResponse(400, graphBody("itemNotFound", "missing"))));
+  assert.ok(isGraphNotFound(new OneDriveError("Path was not found.", "itemNotFound")));
+  assert.ok(!isGraphNotFound(GraphError.fromResponse(403, graphBody("accessDenied", "denied"))));
+  assert.ok(!isGraphNotFound(new Error("Graph request failed (404): itemNotFound")));
+});
+
+test("isGraphAccessDenied matches 403 responses and accessDenied codes", () => {
+  assert.ok(isGraphAccessDenied(GraphError.fromResponse(403, graphBody("accessDenied", "denied"))));
+  assert.ok(isGraphAccessDenied(GraphError.fromResponse(401, graphBody("accessDenied", "denied"))));
+  assert.ok(!isGraphAccessDenied(GraphError.fromResponse(404, graphBody("itemNotFound", "missing"))));
+});
+
+test("isGraphCurrentVersionContentUnsupported only matches content requests for the current version", () => {
+  const body = graphBody("invalidRequest", "You cannot get the content of the current version.");
+  assert.ok(isGraphCurrentVersionContentUnsupported(GraphError.fromResponse(400, body, undefined, undefined, true)));
+  assert.ok(!isGraphCurrentVersionContentUnsupported(GraphError.fromResponse(400, body)));
+  assert.ok(!isGraphCurrentVersionContentUnsupported(
+    GraphError.fromResponse(400, graphBody("invalidRequest", "Bad path."), undefined, undefined, true)
+  ));
+});
+
+test("isGraphWriteAccessRefused matches refused consent and denied restores", () => {
+  assert.ok(isGraphWriteAccessRefused(new OneDriveError("Write access was not granted.", "writeScopeRefused")));
+  assert.ok(isGraphWriteAccessRefused(GraphError.fromResponse(403, graphBody("accessDenied", "denied"))));
+  assert.ok(!isGraphWriteAccessRefused(GraphError.fromResponse(404, graphBody("itemNotFound", "missing"))));
+});
+
+test("isGraphRestoreUnsupported matches restores rejected outside OneDrive Personal", () => {
+  assert.ok(isGraphRestoreUnsupported(GraphError.fromResponse(400, graphBody("invalidRequest", "Invalid request"))));
+  assert.ok(isGraphRestoreUnsupported(GraphError.fromResponse(501, graphBody("notImplemented", "Not implemented"))));
+  assert.ok(isGraphRestoreUnsupported(GraphError.fromResponse(403, graphBody("notSupported", "Not supported"))));
+  assert.ok(!isGraphRestoreUnsupported(GraphError.fromResponse(403, graphBody("accessDenied", "denied"))));
+  assert.ok(!isGraphRestoreUnsupported(new OneDriveError("Graph request timed out.", "timeout")));
+});
+
+test("isConsentRefusal matches declined consent but not network or configuration failures", () => {
+  assert.ok(isConsentRefusal(Object.assign(new Error("AADSTS65001: The user or administrator has not consented"), { errorCode: "invalid_grant" })));
+  assert.ok(isConsentRefusal(Object.assign(new Error("interaction needed"), { errorCode: "interaction_required" })));
+  assert.ok(isConsentRefusal(new Error("User did not consent to login.")));
+  assert.ok(isConsentRefusal(new OneDriveError("Browser sign-in was cancelled.", "cancelled")));
+  assert.ok(!isConsentRefusal(new OneDriveError("Graph request failed to reach the server: ECONNRESET", "network")));
+  assert.ok(!isConsentRefusal(new OneDriveError("Sign-in required to access OneDrive.", "authRequired")));
+  assert.ok(!isConsentRefusal(Object.assign(new Error("endpoints_resolution_error"), { errorCode: "endpoints_resolution_error" })));
+});
+
+test("isGraphFolderDeltaUnsupported matches rejected folder-scoped delta queries", () => {
+  assert.ok(isGraphFolderDeltaUnsupported(GraphError.fromResponse(400, graphBody("invalidRequest", "Delta is only supported on the root"))));
+  assert.ok(isGraphFolderDeltaUnsupported(GraphError.fromResponse(501, graphBody("notSupported", "Not supported"))));
+  assert.ok(!isGraphFolderDeltaUnsupported(GraphError.fromResponse(404, graphBody("itemNotFound", "missing"))));
+  assert.ok(!isGraphFolderDeltaUnsupported(GraphError.fromResponse(400, graphBody("invalidRequest", "Invalid $select value"))));
+  assert.ok(!isGraphFolderDeltaUnsupported(GraphError.fromResponse(400, graphBody("resyncRequired", "Resync required"))));
+});
+
+test("auth and root errors are classified by kind", () => {
+  assert.ok(isAuthRequired(new OneDriveError("Sign-in required.", "authRequired")));
+  assert.ok(!isAuthRequired(new Error("AUTH_REQUIRED")));
+  assert.ok(isOneDriveErrorKind(new OneDriveError("Not in root.", "notInOneDriveRoot"), "notInOneDriveRoot"));
+  assert.ok(!isOneDriveErrorKind(GraphError.fromResponse(404, ""), "notInOneDriveRoot"));
+});
+
+test("isOfflineError matches sign-in, network and timeout failures only", () => {
+  assert.ok(isOfflineError(new OneDriveError("Sign-in required.", "authRequired")));
+  assert.ok(isOfflineError(new OneDriveError("Graph request failed to reach the server: ECONNRESET", "network")));
+  assert.ok(isOfflineError(new OneDriveError("Graph request timed out.", "timeout")));
+  assert.ok(!isOfflineError(new OneDriveError("Cancelled.", "cancelled")));
+  assert.ok(!isOfflineError(GraphError.fromResponse(404, "")));
+});
@@ -0,0 +1,179 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import { OneDriveError } from "../graph-errors";
+import { GraphTransport, computeBackoffDelay, parseRetryAfter } from "../graph-transport";
+
+async function withServer(
+  handler: http.RequestListener,
+  run: (baseUrl: string) => Promise<void>
+): Promise<void> {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run(`http://127.0.0.1:${port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+const fastRetries = { baseDelayMs: 1, maxDelayMs: 20 };
+
+test("parseRetryAfter accepts seconds and HTTP dates", () => {
+  assert.equal(parseRetryAfter("2"), 2000);
+  assert.equal(parseRetryAfter("Mon, 16 Feb 2026 10:00:05 GMT", Date.parse("Mon, 16 Feb 2026 10:00:00 GMT")), 5000);
+  assert.equal(parseRetryAfter(null), undefined);
+  assert.equal(parseRetryAfter("soon"), undefined);
+});
+
+test("computeBackoffDelay grows exponentially and respects the cap", () => {
+  const settings = { baseDelayMs: 100, maxDelayMs: 1000 };
+  assert.equal(computeBackoffDelay(0, settings, () => 1), 100);
+  assert.equal(computeBackoffDelay(2, settings, () => 1), 400);
+  assert.equal(computeBackoffDelay(10, settings, () => 1), 1000);
+  assert.equal(computeBackoffDelay(1, settings, () => 0), 100);
+});
+
+test("GraphTransport retries 429 responses after Retry-After", async () => {
+  let calls = 0;
+  await withServer((_req, res) => {
+    calls++;
+    if (calls === 1) {
+      res.writeHead(429, { "Retry-After": "0" }).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: true }));
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 2 });
+    const body = await transport.request(`${baseUrl}/items`, {}, async (response) => response.json());
+    assert.deepEqual(body, { ok: true });
+    assert.equal(calls, 2);
+  });
+});
+
+test("GraphTransport returns the last retryable response once retries are exhausted", async () => {
+  let calls = 0;
+  await withServer((_req, res) => {
+    calls++;
+    res.writeHead(503).end("busy");
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 2 });
+    const status = await transport.request(`${baseUrl}/items`, {}, async (response) => response.status);
+    assert.equal(status, 503);
+    assert.equal(calls, 3);
+  });
+});
+
+test("GraphTransport does not retry non-retryable statuses", async () => {
+  let calls = 0;
+  await withServer((_req, res) => {
+    calls++;
+    res.writeHead(404).end();
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 3 });
+    const status = await transport.request(`${baseUrl}/items`, {}, async (response) => response.status);
+    assert.equal(status, 404);
+    assert.equal(calls, 1);
+  });
+});
+
+test("GraphTransport does not re-send a POST after a network error or an unthrottled 5xx", async () => {
+  let calls = 0;
+  await withServer((req, res) => {
+    calls++;
+    if (req.url === "/drop") {
+      req.socket.destroy();
+      return;
+    }
+    res.writeHead(503).end("busy");
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 3 });
+    await assert.rejects(
+      transport.request(`${baseUrl}/drop`, { method: "POST" }, async (response) => response.status),
+      (error: unknown) => error instanceof OneDriveError && error.kind === "network"
+    );
+    assert.equal(calls, 1);
+
+    const status = await transport.request(`${baseUrl}/busy`, { method: "POST" }, async (response) => response.status);
+    assert.equal(status, 503);
+    assert.equal(calls, 2);
+  });
+});
+
+test("GraphTransport re-sends a POST throttled with Retry-After", async () => {
+  let calls = 0;
+  await withServer((_req, res) => {
+    calls++;
+    if (calls === 1) {
+      res.writeHead(429, { "Retry-After": "0" }).end();
+      return;
+    }
+    res.writeHead(204).end();
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 2 });
+    const status = await transport.request(`${baseUrl}/restore`, { method: "POST" }, async (response) => response.status);
+    assert.equal(status, 204);
+    assert.equal(calls, 2);
+  });
+});
+
+test("GraphTransport times out stalled requests", async () => {
+  await withServer(() => {
+    // Never respond.
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 0, timeoutMs: 50 });
+    await assert.rejects(
+      transport.request(`${baseUrl}/items`, {}, async (response) => response.status),
+      (error: unknown) => error instanceof OneDriveError && error.kind === "timeout"
+    );
+  });
+});
+
+test("GraphTransport times out bodies that stall after the headers arrive", async () => {
+  await withServer((_req, res) => {
+    res.writeHead(200, { "Content-Type": "application/octet-stream" });
+    res.write("partial");
+    // Never finish the body.
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 0, timeoutMs: 100 });
+    await assert.rejects(
+      transport.request(`${baseUrl}/content`, {}, async (response) => response.arrayBuffer()),
+      (error: unknown) => error instanceof OneDriveError && error.kind === "timeout"
+    );
+  });
+});
+
+test("GraphTransport honors cancellation", async () => {
+  await withServer(() => {
+    // Never respond.
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxRetries: 3, timeoutMs: 5000 });
+    const controller = new AbortController();
+    const pending = transport.request(`${baseUrl}/items`, { signal: controller.signal }, async (response) => response.status);
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(pending, (error: unknown) => error instanceof OneDriveError && error.kind === "cancelled");
+  });
+});
+
+test("GraphTransport caps concurrent requests", async () => {
+  let inFlight = 0;
+  let peak = 0;
+  await withServer((_req, res) => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    setTimeout(() => {
+      inFlight--;
+      res.writeHead(200).end("ok");
+    }, 20);
+  }, async (baseUrl) => {
+    const transport = new GraphTransport({ ...fastRetries, maxConcurrency: 2 });
+    const requests = Array.from({ length: 6 }, (_, index) =>
+      transport.request(`${baseUrl}/items/${index}`, {}, async (response) => response.text())
+    );
+    assert.deepEqual(await Promise.all(requests), Array(6).fill("ok"));
+    assert.equal(peak, 2);
+  });
+});
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { findLineMatches, findPresenceRange, parseSearchQuery } from "../history-search";
+
+test("parseSearchQuery treats plain text as a case-insensitive literal", () => {
+  const pattern = parseSearchQuery("timeout (s)");
+  assert.equal(pattern.test("Timeout (S) = 30"), true);
+  assert.equal(parseSearchQuery("a.b").test("axb"), false);
+});
+
+test("parseSearchQuery accepts /regex/flags", () => {
+  const pattern = parseSearchQuery("/^retries\\s*=\\s*\\d+$/m");
+  assert.equal(pattern.flags, "gm");
+  assert.equal(pattern.test("retries = 4"), true);
+  assert.throws(() => parseSearchQuery("/(unclosed/"), SyntaxError);
+});
+
+test("findLineMatches returns each matching line with surrounding context", () => {
+  const matches = findLineMatches("one\nkey=1\nthree\nkey=2", parseSearchQuery("key="), 1);
+  assert.deepEqual(matches, [
+    { line: 1, text: "key=1", before: ["one"], after: ["three"] },
+    { line: 3, text: "key=2", before: ["three"], after: [] }
+  ]);
+  assert.equal(findLineMatches("key\nkey\nkey", parseSearchQuery("key"), 0, 2).length, 2);
+});
+
+test("findPresenceRange reports the newest and oldest versions containing matches", () => {
+  assert.deepEqual(findPresenceRange([0, 2, 0, 1, 0]), { newestIndex: 1, oldestIndex: 3, versionCount: 2 });
+  assert.equal(findPresenceRange([0, 0]), undefined);
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { LineEdit, attributeLines, computeHunks, matchLines, splitLines, toRevertEdit } from "../line-diff";
+
+test("matchLines maps unchanged lines and leaves inserted lines unmatched", () => {
+  const previous = ["a", "b", "c", "d"];
+  const next = ["a", "x", "c", "d", "e"];
+  assert.deepEqual(matchLines(previous, next), [0, undefined, 2, 3, undefined]);
+});
+
+test("matchLines handles insertions in the middle of repeated lines", () => {
+  const previous = ["}", "}", "}"];
+  const next = ["}", "new", "}", "}"];
+  const matches = matchLines(previous, next);
+  assert.equal(matches.filter((match) => match !== undefined).length, 3);
+  assert.equal(matches[1], undefined);
+});
+
+test("matchLines treats texts beyond the edit distance cap as rewritten", () => {
+  const matches = matchLines(["same", "a", "b", "c", "end"], ["same", "x", "y", "z", "end"], 2);
+  assert.deepEqual(matches, [0, undefined, undefined, undefined, 4]);
+});
+
+test("attributeLines assigns each line to the version that introduced it", () => {
+  const owners = attributeLines(["one\ntwo", "one\ntwo\nthree", "zero\none\ntwo\nthree"]);
+  assert.deepEqual(owners, [2, 0, 0, 1]);
+});
+
+test("attributeLines reattributes edited lines and ignores CRLF differences", () => {
+  const owners = attributeLines(["alpha\r\nbeta\r\ngamma", "alpha\nBETA\ngamma"]);
+  assert.deepEqual(owners, [0, 1, 0]);
+  assert.deepEqual(splitLines("a\r\nb\nc"), ["a", "b", "c"]);
+});
+
+function applyEdits(text: string, edits: LineEdit[]): string {
+  const lines = splitLines(text);
+  const offset = (position: LineEdit["start"]): number =>
+    lines.slice(0, position.line).reduce((total, line) => total + line.length + 1, 0) + position.character;
+  return [...edits]
+    .sort((a, b) => offset(b.start) - offset(a.start))
+    .reduce((result, edit) => result.slice(0, offset(edit.start)) + edit.text + result.slice(offset(edit.end)), text);
+}
+
+test("computeHunks groups replacements, insertions and deletions", () => {
+  const previous = ["a", "b", "c", "d", "e"];
+  const next = ["a", "B", "c", "e", "f"];
+  assert.deepEqual(computeHunks(previous, next), [
+    { previousStart: 1, previousEnd: 2, nextStart: 1, nextEnd: 2 },
+    { previousStart: 3, previousEnd: 4, nextStart: 3, nextEnd: 3 },
+    { previousStart: 5, previousEnd: 5, nextStart: 4, nextEnd: 5 }
+  ]);
+});
+
+test("toRevertEdit restores all or only some hunks of the previous text", () => {
+  const cases = [
+    ["intro\nkept paragraph\nmiddle\nend", "intro\nmiddle\nnew line\nend"],
+    ["a\nb", "x\na\nb\ny"],
+    ["a\nb\nc", "a"],
+    ["only", ""]
+  ];
+  for (const [previousText, nextText] of cases) {
+    const previous = splitLines(previousText);
+    const next = splitLines(nextText);
+    const edits = computeHunks(previous, next).map((hunk) => toRevertEdit(hunk, previous, next, "\n"));
+    assert.equal(applyEdits(nextText, edits), previousText);
+  }
+
+  const previous = splitLines("intro\nkept paragraph\nmiddle\nend");
+  const next = splitLines("intro\nmiddle\nnew line\nend");
+  const [deleted] = computeHunks(previous, next);
+  assert.equal(applyEdits(next.join("\n"), [toRevertEdit(deleted, previous, next, "\n")]), "intro\nkept paragraph\nmiddle\nnew line\nend");
+});
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import { AuthError } from "@azure/msal-node";
+import { isOneDriveErrorKind } from "../graph-errors";
+import { LoopbackRedirectServer, NO_LOOPBACK_SERVER_EXISTS } from "../loopback-auth";
+
+// Stands in for the Entra authorize endpoint: redirects straight back to `redirect_uri` with a code or an error.
+async function withStubAuthority(run: (authorizeUrl: string) => Promise<void>): Promise<void> {
+  const authority = http.createServer((request, response) => {
+    const params = new URL(request.url ?? "/", "http://127.0.0.1").searchParams;
+    const redirect = new URL(params.get("redirect_uri") ?? "");
+    if (params.get("login_hint") === "blocked") {
+      redirect.searchParams.set("error", "access_denied");
+      redirect.searchParams.set("error_description", "AADSTS53003: <blocked by Conditional Access>");
+    } else {
+      redirect.searchParams.set("code", "stub-code");
+    }
+    redirect.searchParams.set("state", params.get("state") ?? "");
+    response.writeHead(302, { Location: redirect.toString() }).end();
+  });
+  await new Promise<void>((resolve) => authority.listen(0, "127.0.0.1", resolve));
+  try {
+    await run(`http://127.0.0.1:${(authority.address() as AddressInfo).port}/oauth2/v2.0/authorize`);
+  } finally {
+    authority.close();
+  }
+}
+
+const isNotListeningYet = (error: unknown): boolean => error instanceof AuthError && error.errorCode === NO_LOOPBACK_SERVER_EXISTS;
+
+// Same contract as MSAL's `waitForRedirectUri`: keep polling only on `no_loopback_server_exists`, fail on anything else.
+async function waitForRedirectUri(loopback: LoopbackRedirectServer): Promise<string> {
+  for (;;) {
+    try {
+      return loopback.getRedirectUri();
+    } catch (error) {
+      if (!isNotListeningYet(error)) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+}
+
+test("LoopbackRedirectServer returns the code the authority redirects back with", async () => {
+  await withStubAuthority(async (authorizeUrl) => {
+    const loopback = new LoopbackRedirectServer({ timeoutMs: 5000 });
+    try {
+      const listening = loopback.listenForAuthCode();
+      const redirectUri = await waitForRedirectUri(loopback);
+      assert.match(redirectUri, /^http:\/\/localhost:\d+$/);
+
+      const probe = await fetch(`${redirectUri}/favicon.ico`);
+      assert.equal(probe.status, 404);
+
+      const page = await fetch(`${authorizeUrl}?redirect_uri=${encodeURIComponent(redirectUri)}&state=s1`);
+      assert.equal(page.status, 200);
+      assert.match(page.url, /\/signed-in$/);
+      assert.deepEqual(await listening, { code: "stub-code", state: "s1" });
+    } finally {
+      loopback.closeServer();
+    }
+  });
+});
+
+test("LoopbackRedirectServer passes authority errors to MSAL and escapes them in the page", async () => {
+  await withStubAuthority(async (authorizeUrl) => {
+    const loopback = new LoopbackRedirectServer({ timeoutMs: 5000 });
+    try {
+      const listening = loopback.listenForAuthCode();
+      const redirectUri = await waitForRedirectUri(loopback);
+      const page = await fetch(`${authorizeUrl}?redirect_uri=${encodeURIComponent(redirectUri)}&state=s2&login_hint=blocked`);
+      assert.equal(page.status, 400);
+      assert.match(await page.text(), /&#60;blocked by Conditional Access&#62;/);
+      const response = await listening;
+      assert.equal(response.error, "access_denied");
+      assert.equal(response.state, "s2");
+    } finally {
+      loopback.closeServer();
+    }
+  });
+});
+
+test("LoopbackRedirectServer gives up on timeout and cancellation", async () => {
+  const timedOut = new LoopbackRedirectServer({ timeoutMs: 20 });
+  await assert.rejects(timedOut.listenForAuthCode(), (error) => isOneDriveErrorKind(error, "timeout"));
+  assert.throws(() => timedOut.getRedirectUri(), isNotListeningYet);
+
+  const controller = new AbortController();
+  const cancelled = new LoopbackRedirectServer({ timeoutMs: 5000, signal: controller.signal });
+  const listening = cancelled.listenForAuthCode();
+  await waitForRedirectUri(cancelled);
+  controller.abort();
+  await assert.rejects(listening, (error) => isOneDriveErrorKind(error, "cancelled"));
+});
+
+test("LoopbackRedirectServer tells MSAL to keep polling until it listens", () => {
+  const loopback = new LoopbackRedirectServer({ timeoutMs: 5000 });
+  assert.throws(() => loopback.getRedirectUri(), isNotListeningYet);
+});
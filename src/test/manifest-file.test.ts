@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ManifestFile } from "../manifest-file";
+
+async function withDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "onedrive-versions-manifest-"));
+  try {
+    await run(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("ManifestFile saves entries that a new instance reads back, leaving no temporary file", async () => {
+  await withDir(async (dir) => {
+    const filePath = path.join(dir, "store", "index.json");
+    const file = new ManifestFile<{ id: string }>(filePath);
+    const manifest = await file.load();
+    assert.equal(manifest.entries.length, 0);
+
+    manifest.entries.push({ id: "a" });
+    await file.save(manifest);
+
+    assert.deepEqual((await new ManifestFile<{ id: string }>(filePath).load()).entries, [{ id: "a" }]);
+    assert.deepEqual(await fs.readdir(path.join(dir, "store")), ["index.json"]);
+  });
+});
+
+test("ManifestFile reads a corrupt or malformed manifest as empty", async () => {
+  await withDir(async (dir) => {
+    await fs.writeFile(path.join(dir, "corrupt.json"), "{not json", "utf8");
+    await fs.writeFile(path.join(dir, "malformed.json"), JSON.stringify({ entries: "nope" }), "utf8");
+    assert.deepEqual((await new ManifestFile(path.join(dir, "corrupt.json")).load()).entries, []);
+    assert.deepEqual((await new ManifestFile(path.join(dir, "malformed.json")).load()).entries, []);
+  });
+});
+
+test("ManifestFile.serialize runs operations in order and keeps going after a failure", async () => {
+  const file = new ManifestFile(path.join(os.tmpdir(), "unused.json"));
+  const order: string[] = [];
+  const first = file.serialize(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    order.push("first");
+    throw new Error("boom");
+  });
+  const second = file.serialize(async () => {
+    order.push("second");
+    return 2;
+  });
+
+  await assert.rejects(first, /boom/);
+  assert.equal(await second, 2);
+  assert.deepEqual(order, ["first", "second"]);
+});
@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { deflateRawSync } from "node:zlib";
+import { decodeXmlEntities, extractDocxText, extractPptxText, extractXlsxText } from "../ooxml-text";
+import { findTextConverter } from "../text-converters";
+import { isZipArchive, readZipEntries } from "../zip-reader";
+
+// Tests run from out/test; fixtures stay in the source tree.
+const fixture = (name: string): Uint8Array => fs.readFileSync(path.join(__dirname, "..", "..", "src", "test", "fixtures", name));
+
+test("readZipEntries lists stored and deflated entries and skips directories", () => {
+  const bytes = fixture("sample.docx");
+  assert.equal(isZipArchive(bytes), true);
+  const entries = readZipEntries(bytes);
+  assert.deepEqual([...entries.keys()].sort(), ["[Content_Types].xml", "word/document.xml"]);
+  assert.match(new TextDecoder().decode(entries.get("[Content_Types].xml")!()), /<Types /);
+  assert.throws(() => readZipEntries(new TextEncoder().encode("plain text, not a zip archive")), /Not a ZIP archive/);
+});
+
+// One deflated entry whose headers declare `declaredSize` bytes of output.
+function deflatedZip(name: string, content: Buffer, declaredSize: number): Uint8Array {
+  const nameBytes = Buffer.from(name, "utf8");
+  const data = deflateRawSync(content);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+test("readZipEntries stops inflating entries at their declared size", () => {
+  const content = Buffer.alloc(4096, "a");
+  const honest = readZipEntries(deflatedZip("word/document.xml", content, content.length));
+  assert.equal(honest.get("word/document.xml")?.().length, content.length);
+
+  const forged = readZipEntries(deflatedZip("word/document.xml", content, 16));
+  assert.throws(() => forged.get("word/document.xml")?.(), /inflates beyond its declared size/);
+
+  const huge = readZipEntries(deflatedZip("word/document.xml", content, 0xffffffff));
+  assert.throws(() => huge.get("word/document.xml")?.(), /too large/);
+});
+
+test("extractDocxText renders one line per paragraph with tabs and breaks", () => {
+  assert.equal(
+    extractDocxText(fixture("sample.docx")),
+    ["Quarterly Plan", "Revenue grew by 12% & costs fell.", "Owner:\tAlex\nBackup: Sam", "", "Cell A", "Cell – B"].join("\n")
+  );
+});
+
+test("extractXlsxText lists cells per sheet with shared strings and formulas", () => {
+  assert.equal(
+    extractXlsxText(fixture("sample.xlsx")),
+    [
+      "## Sheet: Budget",
+      "A1: Item",
+      "B1: Cost",
+      "A2: Rent",
+      "B2: 1200",
+      "A3: Total",
+      "B3: 1200 (=SUM(B2:B2))",
+      "C3: TRUE",
+      "",
+      "## Sheet: Notes & Ideas",
+      "A1: Ship v2"
+    ].join("\n")
+  );
+});
+
+test("extractPptxText follows presentation slide order and skips empty paragraphs", () => {
+  assert.equal(
+    extractPptxText(fixture("sample.pptx")),
+    ["## Slide 1", "Roadmap", "Line one\nline two", "", "## Slide 2", "Next Steps", "Hire <2> engineers"].join("\n")
+  );
+});
+
+test("findTextConverter matches Office extensions case-insensitively", () => {
+  assert.equal(findTextConverter("Report.DOCX")?.label, "Word document");
+  assert.equal(findTextConverter("/tmp/model.xlsm")?.label, "Excel workbook");
+  assert.equal(findTextConverter("deck.pptx")?.label, "PowerPoint presentation");
+  assert.equal(findTextConverter("notes.txt"), undefined);
+  assert.equal(decodeXmlEntities("&lt;a&gt; &quot;b&quot; &#65;&#x42;"), "<a> \"b\" AB");
+});
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { collectDeletedChildren, countUnplacedDeletions } from "../recycle-bin";
+
+test("collectDeletedChildren keeps deleted files under the folder, newest first", () => {
+  const items = [
+    { id: "a", name: "a.txt", deleted: {}, lastModifiedDateTime: "2026-03-01T10:00:00Z", parentReference: { id: "dir" } },
+    { id: "b", name: "b.txt", deleted: {}, lastModifiedDateTime: "2026-03-02T10:00:00Z", parentReference: { id: "dir" } },
+    { id: "c", name: "sub", deleted: {}, folder: {}, parentReference: { id: "dir" } },
+    { id: "d", name: "d.txt", deleted: {}, parentReference: { id: "other" } },
+    { id: "e", name: "e.txt", parentReference: { id: "dir" } }
+  ];
+  assert.deepEqual(collectDeletedChildren(items, "dir").map((item) => item.id), ["b", "a"]);
+});
+
+test("collectDeletedChildren uses the last delta report for each item", () => {
+  const items = [
+    { id: "a", name: "a.txt", deleted: {}, parentReference: { id: "dir" } },
+    { id: "a", name: "a.txt", parentReference: { id: "dir" } },
+    { id: "b", name: "b.txt", parentReference: { id: "dir" } },
+    { id: "b", name: "b.txt", deleted: {}, parentReference: { id: "dir" } }
+  ];
+  assert.deepEqual(collectDeletedChildren(items, "dir").map((item) => item.id), ["b"]);
+});
+
+test("collectDeletedChildren keeps the name and folder of deletion reports that omit them", () => {
+  const items = [
+    { id: "a", name: "a.txt", parentReference: { id: "dir" } },
+    { id: "a", deleted: {} },
+    { id: "b", deleted: {} },
+    { id: "c", deleted: {}, folder: {} }
+  ];
+  assert.deepEqual(collectDeletedChildren(items, "dir").map((item) => [item.id, item.name]), [["a", "a.txt"]]);
+  assert.equal(countUnplacedDeletions(items), 1);
+});
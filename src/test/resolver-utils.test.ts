@@ -3,8 +3,11 @@ import * as assert from "node:assert/strict";
 import {
   appendPathSegmentsToUrl,
   buildRemotePathCandidates,
+  describeGraphErrorBody,
   getRelativePathByUrlPrefix,
+  isRemoteItemPathConsistent,
   normalizeShareBaseUrl,
+  redactSecrets,
   toGraphShareId
 } from "../resolver-utils";
 
@@ -34,3 +37,25 @@ test("toGraphShareId returns Graph share id format", () => {
   assert.ok(shareId.startsWith("u!"));
   assert.ok(!shareId.includes("="));
 });
+
+test("describeGraphErrorBody extracts the Graph error code and message", () => {
+  const body = JSON.stringify({ error: { code: "itemNotFound", message: "The resource could not be found." } });
+  assert.equal(describeGraphErrorBody(body), "itemNotFound: The resource could not be found.");
+  assert.equal(describeGraphErrorBody(""), "no response body");
+});
+
+test("redactSecrets hides bearer tokens, token parameters and JWTs", () => {
+  const text = "Authorization: Bearer abc.def-123 url?tempauth=secret&x=1 eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl";
+  const redacted = redactSecrets(text);
+  assert.equal(redacted, "Authorization: Bearer [redacted] url?tempauth=[redacted]&x=1 [redacted-jwt]");
+});
+
+test("isRemoteItemPathConsistent detects moved and renamed items", () => {
+  const segments = ["Docs", "Q1 Plan.docx"];
+  assert.equal(isRemoteItemPathConsistent("/drive/root:/Docs", "Q1 Plan.docx", segments), true);
+  assert.equal(isRemoteItemPathConsistent("/drives/abc/root:/Shared/docs", "q1 plan.docx", segments), true);
+  assert.equal(isRemoteItemPathConsistent("/drive/root:/Archive", "Q1 Plan.docx", segments), false);
+  assert.equal(isRemoteItemPathConsistent("/drive/root:/Docs", "Q2 Plan.docx", segments), false);
+  assert.equal(isRemoteItemPathConsistent("/drive/root:/My%20Docs", "a.txt", ["My Docs", "a.txt"]), true);
+  assert.equal(isRemoteItemPathConsistent(undefined, "Q1 Plan.docx", segments), true);
+});
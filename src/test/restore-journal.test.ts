@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { RestoreJournal } from "../restore-journal";
+
+async function withJournal(maxEntries: number, run: (journal: RestoreJournal, dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "onedrive-versions-journal-"));
+  try {
+    await run(new RestoreJournal(dir, maxEntries), dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const input = (localPath: string, batchId?: string) => ({
+  localPath,
+  versionId: "3.0",
+  versionDate: "2026-03-01T10:00:00Z",
+  mode: "local" as const,
+  batchId
+});
+
+test("RestoreJournal keeps backups and lists restores newest first across reloads", async () => {
+  await withJournal(10, async (journal, dir) => {
+    await journal.record(input("/od/a.txt"), Uint8Array.from([1, 2]));
+    await journal.record(input("/od/b.txt"), Uint8Array.from([3]));
+
+    const reopened = new RestoreJournal(dir, 10);
+    const entries = await reopened.list();
+    assert.deepEqual(entries.map((entry) => entry.localPath), ["/od/b.txt", "/od/a.txt"]);
+    assert.deepEqual(await reopened.readBackup(entries[1]), Uint8Array.from([1, 2]));
+    assert.equal(entries[1].backupSize, 2);
+  });
+});
+
+test("RestoreJournal returns the whole batch of the last restore and skips reverted ones", async () => {
+  await withJournal(10, async (journal) => {
+    const single = await journal.record(input("/od/a.txt"), Uint8Array.from([1]));
+    await journal.record(input("/od/dir/x.txt", "batch-1"), Uint8Array.from([2]));
+    await journal.record(input("/od/dir/y.txt", "batch-1"), Uint8Array.from([3]));
+
+    const batch = await journal.getLastRestore();
+    assert.deepEqual(batch.map((entry) => entry.localPath).sort(), ["/od/dir/x.txt", "/od/dir/y.txt"]);
+
+    for (const entry of batch) {
+      await journal.markReverted(entry.id);
+    }
+    assert.deepEqual((await journal.getLastRestore()).map((entry) => entry.id), [single.id]);
+  });
+});
+
+test("RestoreJournal prunes the oldest entries and their backups past the cap", async () => {
+  await withJournal(2, async (journal, dir) => {
+    const oldest = await journal.record(input("/od/1.txt"), Uint8Array.from([1]));
+    await journal.record(input("/od/2.txt"), Uint8Array.from([2]));
+    await journal.record(input("/od/3.txt"), Uint8Array.from([3]));
+
+    assert.deepEqual((await journal.list()).map((entry) => entry.localPath), ["/od/3.txt", "/od/2.txt"]);
+    await assert.rejects(fs.access(path.join(dir, "backups", oldest.id)));
+  });
+});
+
+test("RestoreJournal keeps a whole folder restore past the cap and prunes it as one", async () => {
+  await withJournal(2, async (journal, dir) => {
+    const single = await journal.record(input("/od/a.txt"), Uint8Array.from([1]));
+    for (const name of ["x", "y", "z"]) {
+      await journal.record(input(`/od/dir/${name}.txt`, "batch-1"), Uint8Array.from([2]));
+    }
+    assert.equal((await journal.getLastRestore()).length, 3);
+    await assert.rejects(fs.access(path.join(dir, "backups", single.id)));
+
+    await journal.record(input("/od/b.txt"), Uint8Array.from([3]));
+    assert.deepEqual((await journal.list()).map((entry) => entry.localPath), ["/od/b.txt"]);
+  });
+});
+
+test("RestoreJournal drops the entry and backup of a restore that failed", async () => {
+  await withJournal(10, async (journal, dir) => {
+    const kept = await journal.record(input("/od/a.txt"), Uint8Array.from([1]));
+    const failed = await journal.record(input("/od/b.txt"), Uint8Array.from([2]));
+    await journal.remove(failed.id);
+
+    assert.deepEqual((await journal.getLastRestore()).map((entry) => entry.id), [kept.id]);
+    await assert.rejects(fs.access(path.join(dir, "backups", failed.id)));
+  });
+});
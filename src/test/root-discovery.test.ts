@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as path from "node:path";
+import {
+  isMacCloudStorageOneDriveFolder,
+  parseAbrauneggConfig,
+  parseRcloneMounts,
+  parseRcloneOneDriveRemotes
+} from "../root-discovery";
+
+test("parseAbrauneggConfig reads sync_dir and drive_id", () => {
+  const config = [
+    "# sync_dir = \"~/Ignored\"",
+    "sync_dir = \"~/SharePoint/Engineering\"",
+    "drive_id = \"b!abc123\""
+  ].join("\n");
+  assert.deepEqual(parseAbrauneggConfig(config, "/home/ada"), {
+    localRoot: path.join("/home/ada", "SharePoint/Engineering"),
+    driveId: "b!abc123"
+  });
+});
+
+test("parseAbrauneggConfig falls back to the default sync_dir", () => {
+  assert.deepEqual(parseAbrauneggConfig("", "/home/ada"), {
+    localRoot: path.join("/home/ada", "OneDrive"),
+    driveId: undefined
+  });
+});
+
+test("parseRcloneOneDriveRemotes keeps only onedrive remotes", () => {
+  const config = [
+    "[work]",
+    "type = onedrive",
+    "drive_id = b!work",
+    "drive_type = business",
+    "",
+    "[backup]",
+    "type = s3"
+  ].join("\n");
+  assert.deepEqual(parseRcloneOneDriveRemotes(config), [{ name: "work", driveId: "b!work" }]);
+});
+
+test("parseRcloneMounts maps Linux and macOS mount entries", () => {
+  const remotes = [{ name: "work", driveId: "b!work" }];
+  const mounts = [
+    "work:Projects/Board /home/ada/Board\\040Docs fuse.rclone rw,nosuid,nodev 0 0",
+    "other: /mnt/other fuse.rclone rw 0 0",
+    "work: on /Users/ada/Work (macfuse, nodev, nosuid, mounted by ada)"
+  ].join("\n");
+  assert.deepEqual(parseRcloneMounts(mounts, remotes), [
+    { localRoot: "/home/ada/Board Docs", driveId: "b!work", remoteRoot: "/Projects/Board" },
+    { localRoot: "/Users/ada/Work", driveId: "b!work", remoteRoot: "/" }
+  ]);
+});
+
+test("isMacCloudStorageOneDriveFolder matches OneDrive provider folders", () => {
+  assert.ok(isMacCloudStorageOneDriveFolder("OneDrive-Personal"));
+  assert.ok(isMacCloudStorageOneDriveFolder("OneDrive-Contoso"));
+  assert.ok(!isMacCloudStorageOneDriveFolder("GoogleDrive-ada@example.com"));
+});
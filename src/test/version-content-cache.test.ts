@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { VersionContentCache } from "../version-content-cache";
+
+async function withCache(maxBytes: number, run: (cache: VersionContentCache, dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "onedrive-versions-cache-"));
+  const cache = new VersionContentCache(dir, () => maxBytes);
+  try {
+    await run(cache, dir);
+  } finally {
+    await cache.flush();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+const key = (versionId: string) => ({ driveId: "b!drive", itemId: "item1", versionId });
+const bytes = (size: number, fill = 1) => new Uint8Array(size).fill(fill);
+
+test("VersionContentCache stores and returns version bytes", async () => {
+  await withCache(1024, async (cache) => {
+    await cache.put(key("1.0"), bytes(10, 7));
+    assert.deepEqual(await cache.get(key("1.0")), bytes(10, 7));
+    assert.equal(await cache.get(key("2.0")), undefined);
+  });
+});
+
+test("VersionContentCache keeps entries per drive item across reloads", async () => {
+  await withCache(1024, async (cache, dir) => {
+    await cache.put(key("1.0"), bytes(4));
+    const reopened = new VersionContentCache(dir, () => 1024);
+    assert.deepEqual(await reopened.get(key("1.0")), bytes(4));
+    assert.equal(await reopened.get({ ...key("1.0"), itemId: "item2" }), undefined);
+  });
+});
+
+test("VersionContentCache evicts least recently used entries over the cap", async () => {
+  await withCache(25, async (cache) => {
+    await cache.put(key("1.0"), bytes(10));
+    await cache.put(key("2.0"), bytes(10));
+    await cache.get(key("1.0"));
+    await cache.put(key("3.0"), bytes(10));
+    assert.ok(await cache.get(key("1.0")));
+    assert.equal(await cache.get(key("2.0")), undefined);
+    assert.ok(await cache.get(key("3.0")));
+  });
+});
+
+test("VersionContentCache skips oversized entries and clears everything", async () => {
+  await withCache(8, async (cache) => {
+    await cache.put(key("1.0"), bytes(16));
+    assert.equal(await cache.get(key("1.0")), undefined);
+
+    await cache.put(key("2.0"), bytes(8));
+    assert.deepEqual(await cache.clear(), { entries: 1, totalBytes: 8 });
+    assert.deepEqual(await cache.getStats(), { entries: 0, totalBytes: 0 });
+    assert.equal(await cache.get(key("2.0")), undefined);
+  });
+});
+
+test("VersionContentCache writes access times on flush instead of on every hit", async () => {
+  await withCache(25, async (cache, dir) => {
+    await cache.put(key("1.0"), bytes(10));
+    await cache.put(key("2.0"), bytes(10));
+    const index = path.join(dir, "index.json");
+    const saved = await fs.readFile(index, "utf8");
+
+    await cache.get(key("1.0"));
+    assert.equal(await fs.readFile(index, "utf8"), saved);
+    await cache.flush();
+    assert.notEqual(await fs.readFile(index, "utf8"), saved);
+
+    const reopened = new VersionContentCache(dir, () => 25);
+    await reopened.put(key("3.0"), bytes(10));
+    assert.ok(await reopened.get(key("1.0")));
+    assert.equal(await reopened.get(key("2.0")), undefined);
+    await reopened.flush();
+  });
+});
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { buildExportFileName, getManifestFileNames, toManifestCsv } from "../version-export";
+
+test("buildExportFileName inserts a sortable UTC stamp and the version id", () => {
+  assert.equal(buildExportFileName("Plan.docx", "3.0", "2026-03-01T17:30:05Z"), "Plan.20260301T173005Z.v3.0.docx");
+  assert.equal(buildExportFileName("Makefile", "a/b:c", "2026-03-01T17:30:05Z"), "Makefile.20260301T173005Z.va_b_c");
+  assert.deepEqual(getManifestFileNames("Plan.docx"), { json: "Plan.docx.versions.json", csv: "Plan.docx.versions.csv" });
+});
+
+test("toManifestCsv quotes fields containing separators and quotes", () => {
+  const csv = toManifestCsv([
+    {
+      versionId: "1.0",
+      lastModifiedDateTime: "2026-03-01T17:30:05Z",
+      author: "Doe, \"JD\" Jane",
+      size: 42,
+      sha256: "abc",
+      fileName: "Plan.20260301T173005Z.v1.0.docx"
+    }
+  ]);
+  assert.equal(
+    csv,
+    "versionId,lastModifiedDateTime,author,size,sha256,fileName\r\n1.0,2026-03-01T17:30:05Z,\"Doe, \"\"JD\"\" Jane\",42,abc,Plan.20260301T173005Z.v1.0.docx\r\n"
+  );
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { VersionListStore } from "../version-list-store";
+
+async function withStore(run: (store: VersionListStore<{ id: string }>, dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "onedrive-versions-lists-"));
+  try {
+    await run(new VersionListStore(path.join(dir, "lists")), dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("VersionListStore keeps one version list per drive item across reloads", async () => {
+  await withStore(async (store, dir) => {
+    await store.write("b!drive", "item1", [{ id: "2.0" }, { id: "1.0" }]);
+    await store.write("b!drive", "item2", [{ id: "1.0" }]);
+
+    const reopened = new VersionListStore<{ id: string }>(path.join(dir, "lists"));
+    assert.deepEqual(await reopened.read("b!drive", "item1"), [{ id: "2.0" }, { id: "1.0" }]);
+    assert.equal(await reopened.read("b!drive", "missing"), undefined);
+
+    await reopened.remove("b!drive", "item1");
+    assert.equal(await reopened.read("b!drive", "item1"), undefined);
+    assert.deepEqual(await reopened.read("b!drive", "item2"), [{ id: "1.0" }]);
+  });
+});
+
+test("VersionListStore treats unreadable files as missing and clears everything", async () => {
+  await withStore(async (store, dir) => {
+    await store.write("b!drive", "item1", [{ id: "1.0" }]);
+    const [file] = await fs.readdir(path.join(dir, "lists"));
+    await fs.writeFile(path.join(dir, "lists", file), "{not json", "utf8");
+    assert.equal(await store.read("b!drive", "item1"), undefined);
+
+    await store.clear();
+    await assert.rejects(fs.access(path.join(dir, "lists")));
+  });
+});
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  findVersionAtOrBefore,
+  mapWithConcurrency,
+  mergeVersionPage,
+  parsePointInTime,
+  parseSnapshotStamp,
+  sortVersionsNewestFirst,
+  toSnapshotStamp
+} from "../version-utils";
+
+const v = (id: string, day: number) => ({ id, lastModifiedDateTime: `2026-02-${String(day).padStart(2, "0")}T10:00:00Z` });
+
+test("sortVersionsNewestFirst orders by modified date descending", () => {
+  assert.deepEqual(sortVersionsNewestFirst([v("1.0", 1), v("3.0", 3), v("2.0", 2)]).map((x) => x.id), ["3.0", "2.0", "1.0"]);
+});
+
+test("mergeVersionPage appends new versions and skips duplicates", () => {
+  const merged = mergeVersionPage([v("5.0", 5), v("4.0", 4)], [v("4.0", 4), v("3.0", 3), v("2.0", 2)]);
+  assert.deepEqual(merged.map((x) => x.id), ["5.0", "4.0", "3.0", "2.0"]);
+});
+
+test("findVersionAtOrBefore picks the newest version not after the given time", () => {
+  const versions = [v("3.0", 3), v("2.0", 2), v("1.0", 1)];
+  assert.equal(findVersionAtOrBefore(versions, Date.parse("2026-02-02T12:00:00Z")), 1);
+  assert.equal(findVersionAtOrBefore(versions, Date.parse("2026-02-03T10:00:00Z")), 0);
+  assert.equal(findVersionAtOrBefore(versions, Date.parse("2026-01-31T00:00:00Z")), undefined);
+});
+
+test("mapWithConcurrency keeps order, caps work in flight, and stops after a failure", async () => {
+  let active = 0;
+  let peak = 0;
+  const doubled = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (value) => {
+    peak = Math.max(peak, ++active);
+    await new Promise((resolve) => setTimeout(resolve, 5 - value));
+    active--;
+    return value * 2;
+  });
+  assert.deepEqual(doubled, [2, 4, 6, 8, 10]);
+  assert.equal(peak, 2);
+
+  const started: number[] = [];
+  await assert.rejects(
+    mapWithConcurrency([1, 2, 3, 4], 1, async (value) => {
+      started.push(value);
+      if (value === 2) {
+        throw new Error("boom");
+      }
+      return value;
+    }),
+    /boom/
+  );
+  assert.deepEqual(started, [1, 2]);
+});
+
+test("parsePointInTime accepts relative, local, and ISO inputs", () => {
+  const now = new Date(2026, 2, 10, 12, 0, 0);
+  assert.equal(parsePointInTime("2 hours ago", now)?.getTime(), new Date(2026, 2, 10, 10, 0, 0).getTime());
+  assert.equal(parsePointInTime("3d ago", now)?.getTime(), new Date(2026, 2, 7, 12, 0, 0).getTime());
+  assert.equal(parsePointInTime("2026-03-01 09:30", now)?.getTime(), new Date(2026, 2, 1, 9, 30, 0).getTime());
+  assert.equal(parsePointInTime("2026-03-01", now)?.getTime(), new Date(2026, 2, 1, 23, 59, 59, 999).getTime());
+  assert.equal(parsePointInTime("2026-03-01T08:00:00Z", now)?.toISOString(), "2026-03-01T08:00:00.000Z");
+  assert.equal(parsePointInTime("2026-02-30", now), undefined);
+  assert.equal(parsePointInTime("last tuesday", now), undefined);
+});
+
+test("snapshot stamps round-trip through lowercased URI authorities", () => {
+  const stamp = toSnapshotStamp(new Date("2026-03-01T17:30:05.250Z"));
+  assert.equal(stamp, "20260301T173005Z");
+  assert.equal(parseSnapshotStamp(stamp.toLowerCase())?.toISOString(), "2026-03-01T17:30:05.000Z");
+  assert.equal(parseSnapshotStamp("2026-03-01"), undefined);
+});
@@ -0,0 +1,22 @@
+import * as path from "node:path";
+import { extractDocxText, extractPptxText, extractXlsxText } from "./ooxml-text";
+
+export interface VersionTextConverter {
+  readonly label: string;
+  readonly extensions: readonly string[];
+  convert(bytes: Uint8Array): string;
+}
+
+export const builtInTextConverters: readonly VersionTextConverter[] = [
+  { label: "Word document", extensions: [".docx", ".docm", ".dotx", ".dotm"], convert: extractDocxText },
+  { label: "Excel workbook", extensions: [".xlsx", ".xlsm", ".xltx", ".xltm"], convert: extractXlsxText },
+  { label: "PowerPoint presentation", extensions: [".pptx", ".pptm", ".potx", ".potm"], convert: extractPptxText }
+];
+
+export function findTextConverter(
+  fileName: string,
+  converters: readonly VersionTextConverter[] = builtInTextConverters
+): VersionTextConverter | undefined {
+  const extension = path.extname(fileName).toLowerCase();
+  return converters.find((converter) => converter.extensions.includes(extension));
+}
@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Manifest, ManifestFile } from "./manifest-file";
+
+export interface VersionCacheKey {
+  driveId: string;
+  itemId: string;
+  versionId: string;
+}
+
+interface VersionCacheEntry extends VersionCacheKey {
+  blob: string;
+  size: number;
+  lastAccess: number;
+}
+
+type VersionCacheManifest = Manifest<VersionCacheEntry>;
+
+export interface VersionCacheStats {
+  entries: number;
+  totalBytes: number;
+}
+
+const MANIFEST_FILE = "index.json";
+const BLOB_DIR = "blobs";
+const ACCESS_SAVE_DELAY_MS = 5000;
+
+/**
+ * Disk cache for immutable historical version content, evicted least-recently-used first once the
+ * configured size cap is exceeded.
+ * Cache hits only update access times in memory; the index is written once hits settle or on `flush`.
+ */
+export class VersionContentCache {
+  private readonly manifestFile: ManifestFile<VersionCacheEntry>;
+  private clock = 0;
+  private accessSaveTimer?: NodeJS.Timeout;
+
+  public constructor(
+    private readonly rootDir: string,
+    private readonly getMaxBytes: () => number
+  ) {
+    this.manifestFile = new ManifestFile(path.join(rootDir, MANIFEST_FILE));
+  }
+
+  public async get(key: VersionCacheKey): Promise<Uint8Array | undefined> {
+    return this.manifestFile.serialize(async () => {
+      const manifest = await this.loadManifest();
+      const entry = manifest.entries.find((candidate) => sameKey(candidate, key));
+      return entry ? this.readEntry(manifest, entry) : undefined;
+    });
+  }
+
+  public async put(key: VersionCacheKey, bytes: Uint8Array): Promise<void> {
+    await this.manifestFile.serialize(async () => {
+      const maxBytes = this.getMaxBytes();
+      if (maxBytes <= 0 || bytes.byteLength > maxBytes) {
+        return;
+      }
+
+      const manifest = await this.loadManifest();
+      const blob = createHash("sha256").update(`${key.driveId}/${key.itemId}/${key.versionId}`).digest("hex");
+      await fs.mkdir(path.join(this.rootDir, BLOB_DIR), { recursive: true });
+      await fs.writeFile(path.join(this.rootDir, BLOB_DIR, blob), bytes);
+
+      manifest.entries = manifest.entries.filter((candidate) => !sameKey(candidate, key));
+      manifest.entries.push({ ...key, blob, size: bytes.byteLength, lastAccess: this.tick() });
+      await this.evict(manifest, maxBytes);
+      await this.saveManifest(manifest);
+    });
+  }
+
+  public async clear(): Promise<VersionCacheStats> {
+    return this.manifestFile.serialize(async () => {
+      const stats = summarize(await this.loadManifest());
+      await fs.rm(this.rootDir, { recursive: true, force: true });
+      this.manifestFile.reset();
+      return stats;
+    });
+  }
+
+  public async getStats(): Promise<VersionCacheStats> {
+    return this.manifestFile.serialize(async () => summarize(await this.loadManifest()));
+  }
+
+  // Writes access times recorded since the last save.
+  public async flush(): Promise<void> {
+    if (!this.accessSaveTimer) {
+      return;
+    }
+    clearTimeout(this.accessSaveTimer);
+    this.accessSaveTimer = undefined;
+    await this.manifestFile.serialize(async () => {
+      const manifest = this.manifestFile.loaded;
+      if (manifest) {
+        await this.saveManifest(manifest);
+      }
+    });
+  }
+
+  private async readEntry(manifest: VersionCacheManifest, entry: VersionCacheEntry): Promise<Uint8Array | undefined> {
+    try {
+      const bytes = await fs.readFile(path.join(this.rootDir, BLOB_DIR, entry.blob));
+      entry.lastAccess = this.tick();
+      this.scheduleAccessSave();
+      return new Uint8Array(bytes);
+    } catch {
+      manifest.entries = manifest.entries.filter((candidate) => candidate !== entry);
+      await this.saveManifest(manifest);
+      return undefined;
+    }
+  }
+
+  private async evict(manifest: VersionCacheManifest, maxBytes: number): Promise<void> {
+    manifest.entries.sort((a, b) => a.lastAccess - b.lastAccess);
+    let total = summarize(manifest).totalBytes;
+    while (total > maxBytes && manifest.entries.length) {
+      const oldest = manifest.entries.shift();
+      if (!oldest) {
+        break;
+      }
+      total -= oldest.size;
+      await fs.rm(path.join(this.rootDir, BLOB_DIR, oldest.blob), { force: true });
+    }
+  }
+
+  private scheduleAccessSave(): void {
+    if (this.accessSaveTimer) {
+      return;
+    }
+    this.accessSaveTimer = setTimeout(() => void this.flush().catch(() => undefined), ACCESS_SAVE_DELAY_MS);
+    this.accessSaveTimer.unref();
+  }
+
+  private async loadManifest(): Promise<VersionCacheManifest> {
+    if (this.manifestFile.loaded) {
+      return this.manifestFile.loaded;
+    }
+    const manifest = await this.manifestFile.load();
+    this.clock = Math.max(this.clock, ...manifest.entries.map((entry) => entry.lastAccess));
+    return manifest;
+  }
+
+  private async saveManifest(manifest: VersionCacheManifest): Promise<void> {
+    // Any save also persists pending access times.
+    clearTimeout(this.accessSaveTimer);
+    this.accessSaveTimer = undefined;
+    await this.manifestFile.save(manifest);
+  }
+
+  private tick(): number {
+    this.clock = Math.max(this.clock + 1, Date.now());
+    return this.clock;
+  }
+}
+
+function sameKey(a: VersionCacheKey, b: VersionCacheKey): boolean {
+  return a.driveId === b.driveId && a.itemId === b.itemId && a.versionId === b.versionId;
+}
+
+function summarize(manifest: VersionCacheManifest): VersionCacheStats {
+  return {
+    entries: manifest.entries.length,
+    totalBytes: manifest.entries.reduce((total, entry) => total + entry.size, 0)
+  };
+}
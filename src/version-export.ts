@@ -0,0 +1,43 @@
+import * as path from "node:path";
+import { toSnapshotStamp } from "./version-utils";
+
+export interface ExportedVersion {
+  versionId: string;
+  lastModifiedDateTime: string;
+  author: string;
+  size: number;
+  sha256: string;
+  fileName: string;
+}
+
+export interface ExportManifest {
+  sourceFile: string;
+  exportedAt: string;
+  versions: ExportedVersion[];
+}
+
+// "Plan.docx" version 3.0 saved 2026-03-01T17:30:05Z -> "Plan.20260301T173005Z.v3.0.docx", so names sort chronologically.
+export function buildExportFileName(sourceFileName: string, versionId: string, lastModifiedDateTime: string): string {
+  const extension = path.extname(sourceFileName);
+  const stem = path.basename(sourceFileName, extension);
+  const modified = new Date(lastModifiedDateTime);
+  const stamp = Number.isNaN(modified.getTime()) ? "unknown-date" : toSnapshotStamp(modified);
+  const safeId = versionId.replace(/[^A-Za-z0-9._-]/g, "_");
+  return `${stem}.${stamp}.v${safeId}${extension}`;
+}
+
+export function getManifestFileNames(sourceFileName: string): { json: string; csv: string } {
+  return { json: `${sourceFileName}.versions.json`, csv: `${sourceFileName}.versions.csv` };
+}
+
+export function toManifestCsv(versions: readonly ExportedVersion[]): string {
+  const header = ["versionId", "lastModifiedDateTime", "author", "size", "sha256", "fileName"];
+  const rows = versions.map((version) =>
+    [version.versionId, version.lastModifiedDateTime, version.author, String(version.size), version.sha256, version.fileName].map(escapeCsvField).join(",")
+  );
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
@@ -0,0 +1,37 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+/**
+ * Complete version lists of resolved items, one JSON file per drive item, so reopening an unchanged file
+ * skips the version listing without keeping long histories in extension global state.
+ */
+export class VersionListStore<T> {
+  public constructor(private readonly rootDir: string) {}
+
+  public async read(driveId: string, itemId: string): Promise<T[] | undefined> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.fileFor(driveId, itemId), "utf8")) as { versions?: unknown };
+      return Array.isArray(parsed.versions) ? (parsed.versions as T[]) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  public async write(driveId: string, itemId: string, versions: readonly T[]): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(this.fileFor(driveId, itemId), JSON.stringify({ versions }), "utf8");
+  }
+
+  public async remove(driveId: string, itemId: string): Promise<void> {
+    await fs.rm(this.fileFor(driveId, itemId), { force: true });
+  }
+
+  public async clear(): Promise<void> {
+    await fs.rm(this.rootDir, { recursive: true, force: true });
+  }
+
+  private fileFor(driveId: string, itemId: string): string {
+    return path.join(this.rootDir, `${createHash("sha256").update(`${driveId}/${itemId}`).digest("hex")}.json`);
+  }
+}
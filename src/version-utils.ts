@@ -0,0 +1,90 @@
+export interface VersionLike {
+  id: string;
+  lastModifiedDateTime: string;
+}
+
+export function sortVersionsNewestFirst<T extends VersionLike>(versions: readonly T[]): T[] {
+  return [...versions].sort((a, b) => {
+    return new Date(b.lastModifiedDateTime).getTime() - new Date(a.lastModifiedDateTime).getTime();
+  });
+}
+
+export function mergeVersionPage<T extends VersionLike>(existing: readonly T[], page: readonly T[]): T[] {
+  const seen = new Set(existing.map((version) => version.id));
+  const added = page.filter((version) => !seen.has(version.id));
+  return sortVersionsNewestFirst([...existing, ...added]);
+}
+
+// Versions are expected newest first; returns the index of the latest version saved at or before `time`.
+export function findVersionAtOrBefore<T extends VersionLike>(versions: readonly T[], time: number): number | undefined {
+  const index = versions.findIndex((version) => new Date(version.lastModifiedDateTime).getTime() <= time);
+  return index >= 0 ? index : undefined;
+}
+
+// Like Promise.all over `items`, but with at most `limit` mappers in flight so long histories are not all downloaded
+// at once. No new work starts after the first failure, which is rethrown.
+export async function mapWithConcurrency<T, R>(items: readonly T[], limit: number, mapper: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await mapper(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000
+};
+
+// Accepts "3 days ago"-style offsets, local "YYYY-MM-DD[ HH:mm[:ss]]" (a bare date means the end of that day),
+// and ISO 8601 timestamps with a zone.
+export function parsePointInTime(input: string, now: Date = new Date()): Date | undefined {
+  const text = input.trim();
+  const relative = text.match(/^(\d+)\s*(m|mins?|minutes?|h|hours?|d|days?|w|weeks?)\s+ago$/i);
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * RELATIVE_UNITS_MS[relative[2][0].toLowerCase()]);
+  }
+
+  const local = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (local) {
+    const [, year, month, day, hours, minutes, seconds] = local;
+    const date = hours === undefined
+      ? new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59, 999)
+      : new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0));
+    return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day) ? date : undefined;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const parsed = new Date(text);
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+// Compact UTC stamp (20260301T173000Z) that is safe in a URI authority; parsing ignores case because VS Code lowercases authorities.
+export function toSnapshotStamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z").replace(/[-:]/g, "");
+}
+
+export function parseSnapshotStamp(stamp: string): Date | undefined {
+  const match = stamp.match(/^(\d{4})(\d{2})(\d{2})t(\d{2})(\d{2})(\d{2})z$/i);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,84 @@
+import { inflateRawSync } from "node:zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// OOXML parts worth converting to text are far smaller; anything bigger is treated as a zip bomb.
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+// Minimal reader for the single-disk, non-ZIP64 archives that OOXML packages use.
+// Entries are inflated lazily so callers only pay for the parts they read.
+export function readZipEntries(bytes: Uint8Array): Map<string, () => Uint8Array> {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  const entries = new Map<string, () => Uint8Array>();
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory.");
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) {
+      continue;
+    }
+    entries.set(name, () => readEntryData(buffer, localOffset, compressedSize, uncompressedSize, method, name));
+  }
+  return entries;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus an optional comment of up to 64 KiB.
+  const lowest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a ZIP archive.");
+}
+
+function readEntryData(buffer: Buffer, localOffset: number, compressedSize: number, uncompressedSize: number, method: number, name: string): Uint8Array {
+  if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP entry: ${name}`);
+  }
+  const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+  const data = buffer.subarray(start, start + compressedSize);
+  if (method === 0) {
+    return data;
+  }
+  if (method === 8) {
+    // Inflate no further than the declared size so a forged header cannot expand into gigabytes.
+    if (uncompressedSize > MAX_ENTRY_BYTES) {
+      throw new Error(`ZIP entry ${name} is too large (${uncompressedSize} bytes).`);
+    }
+    let inflated: Buffer;
+    try {
+      inflated = inflateRawSync(data, { maxOutputLength: Math.max(1, uncompressedSize) });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new Error(`ZIP entry ${name} inflates beyond its declared size.`);
+      }
+      throw error;
+    }
+    if (inflated.length > uncompressedSize) {
+      throw new Error(`ZIP entry ${name} inflates beyond its declared size.`);
+    }
+    return inflated;
+  }
+  throw new Error(`Unsupported ZIP compression method ${method} for ${name}.`);
+}